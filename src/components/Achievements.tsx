@@ -0,0 +1,172 @@
+import { Action, ActionPanel, Color, Icon, List, showToast, Toast } from "@raycast/api";
+import { useEffect } from "react";
+import { format } from "date-fns";
+import { Achievement, byRarity } from "../lib/achievements";
+import { useAchievementProgress, useAchievements, useMyGames } from "../lib/fetcher";
+import { useAuthState } from "../lib/hooks";
+import { AuthError } from "../errors";
+import { GameSimple } from "../types";
+
+// Same thresholds Steam uses for its rarity colours
+const rarityColor = (percent?: number) => {
+  if (percent === undefined) return Color.SecondaryText;
+  if (percent < 5) return Color.Yellow;
+  if (percent < 20) return Color.Purple;
+  if (percent < 50) return Color.Blue;
+  return Color.SecondaryText;
+};
+
+const AchievementItem = ({ achievement, appid }: { achievement: Achievement; appid: number }) => (
+  <List.Item
+    title={achievement.name}
+    // Don't spoil hidden achievements that haven't been unlocked yet
+    subtitle={achievement.hidden && !achievement.achieved ? "Hidden achievement" : achievement.description}
+    icon={achievement.achieved ? achievement.icon || Icon.Trophy : achievement.iconGray || Icon.Lock}
+    accessories={[
+      achievement.unlockedAt
+        ? { text: format(achievement.unlockedAt * 1000, "PP"), tooltip: "Unlocked", icon: Icon.Calendar }
+        : {},
+      achievement.globalPercent !== undefined
+        ? {
+            tag: { value: `${achievement.globalPercent.toFixed(1)}%`, color: rarityColor(achievement.globalPercent) },
+            tooltip: "Players who have this achievement",
+          }
+        : {},
+    ]}
+    actions={
+      <ActionPanel>
+        <Action.OpenInBrowser
+          title="View Global Achievements"
+          url={`https://steamcommunity.com/stats/${appid}/achievements`}
+        />
+        <Action.CopyToClipboard title="Copy Achievement Name" content={achievement.name} />
+      </ActionPanel>
+    }
+  />
+);
+
+export const Achievements = ({ game }: { game: GameSimple }) => {
+  const { state: auth, isLoggedIn, revalidate: revalidateAuth } = useAuthState();
+  const { data, isLoading, isError: error } = useAchievements({ appid: game.appid, execute: isLoggedIn });
+
+  if (!isLoggedIn) return <AuthError state={auth} onRetry={revalidateAuth} />;
+
+  const unlocked = data?.achievements.filter((achievement) => achievement.achieved).sort(byRarity) ?? [];
+  const locked = data?.achievements.filter((achievement) => !achievement.achieved).sort(byRarity) ?? [];
+
+  return (
+    <List
+      navigationTitle={`${game.name ?? data?.name ?? ""} • Achievements`}
+      isLoading={isLoading}
+      searchBarPlaceholder="Search achievements..."
+    >
+      {!isLoading && !data ? (
+        <List.EmptyView
+          icon={error ? Icon.ExclamationMark : Icon.Trophy}
+          title={error ? "Could not load achievements" : "No achievements"}
+          description={error ? String(error.message ?? error) : "This game doesn't have any Steam achievements"}
+        />
+      ) : null}
+      {data ? (
+        <>
+          <List.Section title="Progress">
+            <List.Item
+              title={`${data.percent}% complete`}
+              subtitle={`${data.unlocked} of ${data.total} achievements`}
+              icon={{
+                source: Icon.Trophy,
+                tintColor: data.percent === 100 ? Color.Yellow : Color.SecondaryText,
+              }}
+            />
+          </List.Section>
+          <List.Section title={`Unlocked (${unlocked.length})`}>
+            {unlocked.map((achievement) => (
+              <AchievementItem key={achievement.apiname} achievement={achievement} appid={data.appid} />
+            ))}
+          </List.Section>
+          <List.Section title={`Locked (${locked.length})`}>
+            {locked.map((achievement) => (
+              <AchievementItem key={achievement.apiname} achievement={achievement} appid={data.appid} />
+            ))}
+          </List.Section>
+        </>
+      ) : null}
+    </List>
+  );
+};
+
+export const AchievementProgress = () => {
+  const { state: auth, isLoggedIn, revalidate: revalidateAuth } = useAuthState();
+  const { data: myGames } = useMyGames();
+  const { data: progress, failed, isLoading, isError } = useAchievementProgress();
+
+  useEffect(() => {
+    if (!failed) return;
+    showToast({
+      style: Toast.Style.Failure,
+      title: `Could not load ${failed} ${failed === 1 ? "game" : "games"}`,
+      message: "Showing the rest, retrying in a minute",
+    });
+  }, [failed]);
+
+  if (!isLoggedIn) return <AuthError state={auth} onRetry={revalidateAuth} />;
+
+  // Most complete first, ties broken by fewest achievements left
+  const inProgress =
+    progress
+      ?.filter((game) => game.percent < 100)
+      .sort((a, b) => b.percent - a.percent || a.total - a.unlocked - (b.total - b.unlocked)) ?? [];
+  const completed = progress?.filter((game) => game.percent === 100) ?? [];
+
+  return (
+    <List navigationTitle="Achievement Progress" isLoading={isLoading} searchBarPlaceholder="Search games...">
+      {isError && !progress ? (
+        <List.EmptyView
+          icon={Icon.ExclamationMark}
+          title="Could not load achievement progress"
+          description={String(isError.message ?? isError)}
+        />
+      ) : null}
+      <List.Section title="Closest to 100%" subtitle={String(inProgress.length)}>
+        {inProgress.map((game) => {
+          const owned = myGames?.find((g) => g.appid === game.appid);
+          return (
+            <List.Item
+              key={game.appid}
+              title={game.name}
+              icon={
+                owned?.img_icon_url
+                  ? `https://steamcdn-a.akamaihd.net/steamcommunity/public/images/apps/${game.appid}/${owned.img_icon_url}.jpg`
+                  : Icon.GameController
+              }
+              accessories={[
+                { text: `${game.unlocked}/${game.total}`, tooltip: "Achievements unlocked" },
+                { tag: `${game.percent}%` },
+              ]}
+              actions={
+                <ActionPanel>
+                  <Action.Push icon={Icon.Trophy} title="View Achievements" target={<Achievements game={game} />} />
+                </ActionPanel>
+              }
+            />
+          );
+        })}
+      </List.Section>
+      <List.Section title="Completed" subtitle={String(completed.length)}>
+        {completed.map((game) => (
+          <List.Item
+            key={game.appid}
+            title={game.name}
+            icon={{ source: Icon.Trophy, tintColor: Color.Yellow }}
+            accessories={[{ text: `${game.total} achievements` }]}
+            actions={
+              <ActionPanel>
+                <Action.Push icon={Icon.Trophy} title="View Achievements" target={<Achievements game={game} />} />
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+};
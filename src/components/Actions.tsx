@@ -2,16 +2,25 @@ import { JSX } from "react";
 import {
   Action,
   ActionPanel,
+  Alert,
   Icon,
   LaunchType,
   LocalStorage,
   Toast,
+  confirmAlert,
   open,
   showToast,
   useNavigation,
 } from "@raycast/api";
 import { crossLaunchCommand } from "raycast-cross-extension";
+import { CREDENTIALS_STORAGE_KEY } from "../lib/credentials";
 import { GameDataSimple } from "../types";
+import { SteamGame } from "../utils/steam-library";
+import { canExitGame, exitGame, SteamClientState } from "../utils/steam-process";
+import { AchievementProgress } from "./Achievements";
+import { GameStorage } from "./GameStorage";
+import { LaunchOptionsForm } from "./LaunchOptionsForm";
+import { SaveBackups } from "./SaveBackups";
 import { MyGames } from "./MyGames";
 import { RandomGamesList } from "./RandomGamesList";
 import { RecentlyPlayedGames } from "./RecentlyPlayedGames";
@@ -45,11 +54,18 @@ export const DefaultActions = () => {
         onAction={() => replaceWith(<RecentlyPlayedGames />)}
       />
       <Action icon={Icon.List} title="View Random Games" onAction={() => replaceWith(<RandomGamesList />)} />
+      <Action
+        icon={Icon.Trophy}
+        title="View Achievement Progress"
+        onAction={() => replaceWith(<AchievementProgress />)}
+      />
       <Action
         icon={Icon.XMarkCircle}
         title="Clear Recent History"
         onAction={async () => {
-          await LocalStorage.clear();
+          // Everything but the saved credentials
+          const keys = Object.keys(await LocalStorage.allItems()).filter((key) => key !== CREDENTIALS_STORAGE_KEY);
+          await Promise.all(keys.map((key) => LocalStorage.removeItem(key)));
           await showToast({
             title: "Success. Reload to see changes",
             style: Toast.Style.Success,
@@ -60,7 +76,8 @@ export const DefaultActions = () => {
   );
 };
 
-export const LaunchActions = ({ name = "", appid = 0 }) => {
+// launchable leaves out Launch and Install, for games from someone else's library
+export const LaunchActions = ({ name = "", appid = 0, running = false, launchable = true }) => {
   if (!appid) return null;
   return (
     <ActionPanel.Section>
@@ -102,8 +119,143 @@ export const LaunchActions = ({ name = "", appid = 0 }) => {
       />
       <Action.OpenInBrowser icon={Icon.Window} title="View in Steam" url={`steam://nav/games/details/${appid}`} />
       <Action.OpenInBrowser icon={Icon.Window} title="Open Store Page in Steam" url={`steam://store/${appid}`} />
-      <Action.OpenInBrowser icon={Icon.ArrowRight} title="Launch Game" url={`steam://rungameid/${appid}`} />
-      <Action.OpenInBrowser icon={Icon.Download} title="Install Game" url={`steam://install/${appid}`} />
+      {/* Launching a game that's already running just focuses Steam, so leave it out */}
+      {launchable && !running && (
+        <>
+          <Action.OpenInBrowser icon={Icon.ArrowRight} title="Launch Game" url={`steam://rungameid/${appid}`} />
+          <Action.OpenInBrowser icon={Icon.Download} title="Install Game" url={`steam://install/${appid}`} />
+        </>
+      )}
+    </ActionPanel.Section>
+  );
+};
+
+export const SteamClientActions = ({
+  state,
+  appid,
+  onChange,
+}: {
+  state?: SteamClientState;
+  // Offer to exit this game when it's the one running
+  appid?: number;
+  onChange?: () => void;
+}) => {
+  if (!state?.running) return null;
+  const isRunning = appid !== undefined && state.runningAppId === appid;
+  return (
+    <ActionPanel.Section title="Steam">
+      {isRunning && canExitGame() && (
+        <Action
+          icon={Icon.Stop}
+          title="Exit Game"
+          style={Action.Style.Destructive}
+          onAction={async () => {
+            try {
+              await exitGame(appid);
+              await showToast({ title: "Exiting Game", style: Toast.Style.Success });
+              onChange?.();
+            } catch (error) {
+              console.error("Error exiting game:", error);
+              await showToast({
+                title: "Failed to Exit Game",
+                message: error instanceof Error ? error.message : undefined,
+                style: Toast.Style.Failure,
+              });
+            }
+          }}
+        />
+      )}
+      <Action
+        icon={Icon.Power}
+        title="Close Steam"
+        onAction={async () => {
+          try {
+            await open("steam://exit");
+            await showToast({ title: "Closing Steam", style: Toast.Style.Success });
+            onChange?.();
+          } catch {
+            await showToast({
+              title: "Failed to Reach Steam",
+              message: "Make sure Steam is installed and running.",
+              style: Toast.Style.Failure,
+            });
+          }
+        }}
+      />
+    </ActionPanel.Section>
+  );
+};
+
+export const LibraryActions = ({
+  game,
+  accountId,
+}: {
+  game: SteamGame;
+  // Account whose saves and launch options are used, the default one when omitted
+  accountId?: string;
+}) => {
+  // Steam works through these in the background, the library watcher picks up the manifest changes
+  const runSteamCommand = async (url: string, title: string) => {
+    try {
+      await open(url);
+      await showToast({ title, message: game.name, style: Toast.Style.Success });
+    } catch {
+      await showToast({
+        title: "Failed to Reach Steam",
+        message: "Make sure Steam is installed and running.",
+        style: Toast.Style.Failure,
+      });
+    }
+  };
+
+  return (
+    <ActionPanel.Section title="Manage">
+      <Action.Push
+        icon={Icon.HardDrive}
+        title="View Storage Breakdown"
+        shortcut={{ modifiers: ["cmd"], key: "i" }}
+        target={<GameStorage game={game} />}
+      />
+      <Action.Push
+        icon={Icon.Terminal}
+        title="Edit Launch Options"
+        shortcut={{ modifiers: ["cmd"], key: "l" }}
+        target={<LaunchOptionsForm game={game} accountId={accountId} />}
+      />
+      <Action.Push
+        icon={Icon.SaveDocument}
+        title="Manage Save Backups"
+        shortcut={{ modifiers: ["cmd"], key: "b" }}
+        target={<SaveBackups game={game} accountId={accountId} />}
+      />
+      <Action.Open title="Open Install Folder" icon={Icon.Folder} target={game.installDir} />
+      <Action.ShowInFinder path={game.installDir} />
+      <Action
+        icon={Icon.CheckCircle}
+        title="Verify Integrity of Game Files"
+        onAction={() => runSteamCommand(`steam://validate/${game.appid}`, "Verifying Game Files")}
+      />
+      <Action
+        icon={Icon.SaveDocument}
+        title="Backup Game Files"
+        onAction={() => runSteamCommand(`steam://backup/${game.appid}`, "Opening Backup Wizard")}
+      />
+      <Action
+        icon={Icon.Trash}
+        title="Uninstall Game"
+        style={Action.Style.Destructive}
+        shortcut={{ modifiers: ["ctrl"], key: "x" }}
+        onAction={async () => {
+          const confirmed = await confirmAlert({
+            title: `Uninstall ${game.name}?`,
+            message: "Steam will delete the game's local files. Cloud saves are not affected.",
+            icon: Icon.Trash,
+            primaryAction: { title: "Uninstall", style: Alert.ActionStyle.Destructive },
+          });
+          if (!confirmed) return;
+          await runSteamCommand(`steam://uninstall/${game.appid}`, "Uninstalling Game");
+        }}
+      />
     </ActionPanel.Section>
   );
 };
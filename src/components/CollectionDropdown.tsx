@@ -0,0 +1,44 @@
+import { Icon, List } from "@raycast/api";
+import { CompatTool } from "../utils/steam-compat";
+import { SteamCollection } from "../utils/steam-collections";
+
+// Tool filters share the dropdown with collections, so their values are prefixed
+export const COMPAT_TOOL_FILTER_PREFIX = "tool:";
+
+export const CollectionDropdown = ({
+  collections,
+  compatTools,
+  onChange,
+}: {
+  collections?: SteamCollection[];
+  compatTools?: CompatTool[];
+  onChange: (collectionId: string) => void;
+}) => (
+  <List.Dropdown tooltip="Filter by Collection" storeValue onChange={onChange}>
+    <List.Dropdown.Item title="All Games" value="" icon={Icon.AppWindowGrid3x3} />
+    {collections && collections.length > 0 ? (
+      <List.Dropdown.Section title="Collections">
+        {collections.map((collection) => (
+          <List.Dropdown.Item
+            key={collection.id}
+            title={collection.name}
+            value={collection.id}
+            icon={collection.dynamic ? Icon.Wand : Icon.Folder}
+          />
+        ))}
+      </List.Dropdown.Section>
+    ) : null}
+    {compatTools && compatTools.length > 0 ? (
+      <List.Dropdown.Section title="Compatibility Tools">
+        {compatTools.map((tool) => (
+          <List.Dropdown.Item
+            key={tool.name}
+            title={tool.displayName}
+            value={`${COMPAT_TOOL_FILTER_PREFIX}${tool.name}`}
+            icon={Icon.Layers}
+          />
+        ))}
+      </List.Dropdown.Section>
+    ) : null}
+  </List.Dropdown>
+);
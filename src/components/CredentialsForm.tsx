@@ -0,0 +1,122 @@
+import { Action, ActionPanel, Form, Icon, openCommandPreferences, showToast, Toast, useNavigation } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { useSWRConfig } from "swr";
+import { AuthState, validateCredentials } from "../lib/auth";
+import { getCredentials, getPreferenceCredentials, saveCredentials } from "../lib/credentials";
+
+// Wait for a pause in typing before hitting the API
+const VALIDATE_DELAY = 600;
+
+const statusText = (state?: AuthState) => {
+  if (!state) return "Enter your API key and Steam ID";
+  switch (state.status) {
+    case "unconfigured":
+      return "Enter your API key and Steam ID";
+    case "validating":
+      return "Checking...";
+    case "valid":
+      return `✓ Signed in as ${state.player.personaname}`;
+    case "private-profile":
+      return state.setting === "profile"
+        ? `Found ${state.player.personaname}, but the profile is private. Set it to Public in your Steam privacy settings to see your games.`
+        : `Found ${state.player.personaname}, but the game details are private. Set them to Public in your Steam privacy settings to see your games.`;
+    default:
+      return state.message;
+  }
+};
+
+/**
+ * Enter and check the API key and Steam ID, for people who'd rather not dig through preferences
+ */
+export const CredentialsForm = ({ onSaved }: { onSaved?: () => void }) => {
+  const { pop } = useNavigation();
+  const { mutate } = useSWRConfig();
+  const [initial] = useState(getCredentials);
+  const [token, setToken] = useState(initial.token);
+  const [steamid, setSteamid] = useState(initial.steamid);
+  const [state, setState] = useState<AuthState>();
+  const fromPreferences = getPreferenceCredentials();
+
+  useEffect(() => {
+    if (!token.trim() || !steamid.trim()) {
+      setState(undefined);
+      return;
+    }
+    let cancelled = false;
+    setState({ status: "validating" });
+    const timeout = setTimeout(async () => {
+      const next = await validateCredentials({ token: token.trim(), steamid: steamid.trim() });
+      if (!cancelled) setState(next);
+    }, VALIDATE_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [token, steamid]);
+
+  const submit = async () => {
+    const credentials = { token: token.trim(), steamid: steamid.trim() };
+    const overridden =
+      (fromPreferences.token && fromPreferences.token !== credentials.token) ||
+      (fromPreferences.steamid && fromPreferences.steamid !== credentials.steamid);
+    if (overridden) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Set in preferences",
+        message: "The extension preferences take priority, change the value there",
+        primaryAction: { title: "Open Preferences", onAction: () => openCommandPreferences() },
+      });
+      return;
+    }
+    if (state?.status !== "valid" && state?.status !== "private-profile") {
+      await showToast({ style: Toast.Style.Failure, title: "Can't sign in", message: statusText(state) });
+      return;
+    }
+    try {
+      await saveCredentials(credentials);
+    } catch (error) {
+      console.error("Error saving credentials:", error);
+      await showToast({ style: Toast.Style.Failure, title: "Couldn't save credentials", message: String(error) });
+      return;
+    }
+    // Anything fetched with the old credentials is stale now
+    mutate((key) => Array.isArray(key) && key[0] === "steam-api");
+    onSaved?.();
+    await showToast({ style: Toast.Style.Success, title: `Signed in as ${state.player.personaname}` });
+    pop();
+  };
+
+  return (
+    <Form
+      navigationTitle="Set up Steam Account"
+      isLoading={state?.status === "validating"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm icon={Icon.Check} title="Save Credentials" onSubmit={submit} />
+          <Action.OpenInBrowser title="Get an Api Key" url="https://steamcommunity.com/dev/apikey" />
+          <Action.OpenInBrowser title="Find Your Steam ID" url="https://store.steampowered.com/account/" />
+        </ActionPanel>
+      }
+    >
+      <Form.PasswordField
+        id="token"
+        title="Steam API Key"
+        placeholder="API Key"
+        value={token}
+        onChange={setToken}
+        error={state?.status === "invalid-key" ? state.message : undefined}
+        info={fromPreferences.token ? "Set in the extension preferences, which take priority" : undefined}
+      />
+      <Form.TextField
+        id="steamid"
+        title="Steam ID"
+        placeholder="SteamID64, profile URL or custom URL name"
+        value={steamid}
+        onChange={setSteamid}
+        error={state?.status === "invalid-id" ? state.message : undefined}
+        info={fromPreferences.steamid ? "Set in the extension preferences, which take priority" : undefined}
+      />
+      <Form.Description title="Status" text={statusText(state)} />
+    </Form>
+  );
+};
@@ -0,0 +1,122 @@
+import { ActionPanel, Color, Icon, List, showToast, Toast } from "@raycast/api";
+import { useEffect, useMemo, useState } from "react";
+import {
+  formatFileSize,
+  formatLastUpdated,
+  getInstalledSteamGames,
+  SteamGame,
+  SteamLibraryInfo,
+} from "../utils/steam-library";
+import { watchSteamLibraries } from "../utils/steam-watcher";
+import { LibraryActions } from "./Actions";
+
+const LARGEST_COUNT = 5;
+const STALE_AFTER_DAYS = 90;
+
+// Most recent sign of life for a game, whether that's being played or patched
+const lastActivity = (game: SteamGame) => Math.max(game.lastPlayed ?? 0, game.lastUpdated ?? 0);
+
+const isStale = (game: SteamGame) => {
+  const activity = lastActivity(game);
+  return activity > 0 && Date.now() / 1000 - activity > STALE_AFTER_DAYS * 24 * 60 * 60;
+};
+
+export const DiskUsage = () => {
+  const [library, setLibrary] = useState<SteamLibraryInfo>();
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadLibrary = async () => {
+    setIsLoading(true);
+    try {
+      setLibrary(await getInstalledSteamGames());
+    } catch (error) {
+      console.error("Library load error:", error);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Library Load Failed",
+        message: "Could not load Steam library. Check console for details.",
+      });
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadLibrary();
+  }, []);
+
+  // Uninstalls finish in Steam's own time, so rescan when a manifest actually changes
+  const libraryPaths = useMemo(() => library?.folders.map((folder) => folder.path) ?? [], [library]);
+  useEffect(() => {
+    if (!libraryPaths.length) return;
+    return watchSteamLibraries(libraryPaths, () => loadLibrary());
+  }, [libraryPaths.join("\n")]);
+
+  const largest = useMemo(() => {
+    const bySize = [...(library?.games ?? [])].sort((a, b) => b.sizeOnDisk - a.sizeOnDisk);
+    return new Set(bySize.slice(0, LARGEST_COUNT).map((game) => game.appid));
+  }, [library]);
+
+  const cleanupCandidates = useMemo(
+    () => (library?.games ?? []).filter(isStale).sort((a, b) => b.sizeOnDisk - a.sizeOnDisk),
+    [library],
+  );
+
+  const renderGame = (game: SteamGame, keyPrefix: string) => (
+    <List.Item
+      key={keyPrefix + game.appid}
+      title={game.name}
+      icon={{
+        source: `https://cdn.akamai.steamstatic.com/steam/apps/${game.appid}/capsule_184x69.jpg`,
+        fallback: Icon.Circle,
+      }}
+      accessories={[
+        largest.has(game.appid) ? { tag: { value: "Largest", color: Color.Orange } } : {},
+        isStale(game)
+          ? {
+              tag: { value: `Active ${formatLastUpdated(lastActivity(game))}`, color: Color.SecondaryText },
+              tooltip: game.lastPlayed ? "Last played or updated" : "Last updated",
+            }
+          : {},
+        { text: formatFileSize(game.sizeOnDisk), icon: Icon.HardDrive },
+      ]}
+      actions={
+        <ActionPanel>
+          <LibraryActions game={game} />
+        </ActionPanel>
+      }
+    />
+  );
+
+  return (
+    <List navigationTitle="Disk Usage" isLoading={isLoading} searchBarPlaceholder="Search your library...">
+      {cleanupCandidates.length > 0 && (
+        <List.Section
+          title="Cleanup Candidates"
+          subtitle={`${cleanupCandidates.length} games idle for ${STALE_AFTER_DAYS}+ days • ${formatFileSize(
+            cleanupCandidates.reduce((sum, game) => sum + game.sizeOnDisk, 0),
+          )}`}
+        >
+          {cleanupCandidates.map((game) => renderGame(game, "cleanup"))}
+        </List.Section>
+      )}
+      {library?.folders.map((folder) => {
+        const games = library.games
+          .filter((game) => game.libraryPath === folder.path)
+          .sort((a, b) => b.sizeOnDisk - a.sizeOnDisk);
+        const space =
+          folder.freeSpace !== undefined && folder.totalSpace !== undefined
+            ? ` • ${formatFileSize(folder.freeSpace)} free of ${formatFileSize(folder.totalSpace)} on ${folder.drive}`
+            : ` • ${folder.drive}`;
+        return (
+          <List.Section
+            key={folder.path}
+            title={folder.label || folder.path}
+            subtitle={`${folder.gameCount} games • ${formatFileSize(folder.size)}${space}`}
+          >
+            {games.map((game) => renderGame(game, folder.path))}
+          </List.Section>
+        );
+      })}
+    </List>
+  );
+};
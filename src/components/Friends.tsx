@@ -0,0 +1,160 @@
+import { Action, ActionPanel, Color, Icon, Image, List } from "@raycast/api";
+import { formatDistanceToNow } from "date-fns";
+import { useMemo } from "react";
+import { AuthError } from "../errors";
+import { useFriends, useOwnedGames } from "../lib/fetcher";
+import { useAuthState } from "../lib/hooks";
+import { isAccessDenied } from "../lib/steam-api";
+import { FriendSummary } from "../types";
+import { GameDetails } from "./GameDetails";
+import { GamesInCommon, GamesInCommonForm } from "./GamesInCommon";
+import { MyGamesListType } from "./ListItems";
+
+const PERSONA_STATES: Record<number, { label: string; color: Color }> = {
+  0: { label: "Offline", color: Color.SecondaryText },
+  1: { label: "Online", color: Color.Blue },
+  2: { label: "Busy", color: Color.Red },
+  3: { label: "Away", color: Color.Yellow },
+  4: { label: "Snooze", color: Color.Yellow },
+  5: { label: "Looking to Trade", color: Color.Blue },
+  6: { label: "Looking to Play", color: Color.Blue },
+};
+
+const isInGame = (friend: FriendSummary) => Boolean(friend.gameid);
+
+// In-game first, then online, then offline, alphabetical within each
+const friendRank = (friend: FriendSummary) => (isInGame(friend) ? 0 : friend.personastate > 0 ? 1 : 2);
+
+export const FriendGames = ({ friend }: { friend: FriendSummary }) => {
+  const { data: games, isLoading, isError: error } = useOwnedGames(friend.steamid);
+  const sorted = useMemo(
+    () => games?.filter((g) => g?.name).sort((a, b) => b.playtime_forever - a.playtime_forever),
+    [games],
+  );
+
+  return (
+    <List
+      navigationTitle={`${friend.personaname} • Games`}
+      isLoading={isLoading}
+      searchBarPlaceholder="Search games..."
+    >
+      {!isLoading && !sorted?.length ? (
+        <List.EmptyView
+          icon={error ? Icon.ExclamationMark : Icon.Lock}
+          title={error ? "Could not load games" : "Game details are private"}
+          description={
+            error
+              ? String(error.message ?? error)
+              : `${friend.personaname} only shares their games with friends or no one`
+          }
+        />
+      ) : null}
+      {sorted?.map((game) => (
+        <MyGamesListType key={game.appid} game={game} personal={false} />
+      ))}
+    </List>
+  );
+};
+
+export const Friends = () => {
+  const { state: auth, isLoggedIn, revalidate: revalidateAuth } = useAuthState();
+  const { data: friends, isLoading, isError: error, revalidate } = useFriends({ execute: isLoggedIn });
+
+  const sorted = useMemo(
+    () =>
+      [...(friends ?? [])].sort((a, b) => friendRank(a) - friendRank(b) || a.personaname.localeCompare(b.personaname)),
+    [friends],
+  );
+  const inGame = sorted.filter((friend) => friendRank(friend) === 0);
+  const online = sorted.filter((friend) => friendRank(friend) === 1);
+  const offline = sorted.filter((friend) => friendRank(friend) === 2);
+
+  if (!isLoggedIn) return <AuthError state={auth} onRetry={revalidateAuth} />;
+
+  const renderFriend = (friend: FriendSummary) => {
+    const state = PERSONA_STATES[friend.personastate] ?? PERSONA_STATES[0];
+    return (
+      <List.Item
+        key={friend.steamid}
+        title={friend.personaname}
+        subtitle={friend.gameextrainfo}
+        icon={{ source: friend.avatarmedium, mask: Image.Mask.Circle }}
+        keywords={friend.gameextrainfo ? [friend.gameextrainfo] : undefined}
+        accessories={[
+          isInGame(friend)
+            ? { tag: { value: "In-Game", color: Color.Green }, icon: Icon.GameController }
+            : { tag: { value: state.label, color: state.color } },
+          !friend.personastate && friend.lastlogoff
+            ? { text: formatDistanceToNow(friend.lastlogoff * 1000, { addSuffix: true }), tooltip: "Last online" }
+            : {},
+        ]}
+        actions={
+          <ActionPanel>
+            <Action.OpenInBrowser icon={Icon.Person} title="Open Profile" url={friend.profileurl} />
+            <Action.Push
+              icon={Icon.List}
+              title="View Owned Games"
+              shortcut={{ modifiers: ["cmd"], key: "o" }}
+              target={<FriendGames friend={friend} />}
+            />
+            <Action.Push
+              icon={Icon.TwoPeople}
+              title="Find Games in Common"
+              shortcut={{ modifiers: ["cmd", "shift"], key: "o" }}
+              target={<GamesInCommon steamids={[friend.steamid]} />}
+            />
+            <Action.Push
+              icon={Icon.PersonLines}
+              title="Compare Libraries with a Group"
+              target={<GamesInCommonForm friends={sorted} />}
+            />
+            {friend.gameid ? (
+              <Action.Push
+                icon={Icon.Sidebar}
+                title={`View ${friend.gameextrainfo ?? "Current Game"}`}
+                shortcut={{ modifiers: ["cmd"], key: "g" }}
+                target={<GameDetails game={{ appid: Number(friend.gameid), name: friend.gameextrainfo }} />}
+              />
+            ) : null}
+            <Action.CopyToClipboard title="Copy Steam ID" content={friend.steamid} />
+            <Action
+              icon={Icon.ArrowClockwise}
+              title="Refresh Friends"
+              shortcut={{ modifiers: ["cmd"], key: "r" }}
+              onAction={() => revalidate()}
+            />
+          </ActionPanel>
+        }
+      />
+    );
+  };
+
+  return (
+    <List navigationTitle="Friends" isLoading={isLoading} searchBarPlaceholder="Search friends or games...">
+      {error && !friends ? (
+        isAccessDenied(error) ? (
+          <List.EmptyView
+            icon={Icon.Lock}
+            title="Friends list is private"
+            description="Set your friends list to Public in your Steam privacy settings to see it here"
+          />
+        ) : (
+          <List.EmptyView
+            icon={Icon.ExclamationMark}
+            title="Could not load friends"
+            description={String(error.message ?? error)}
+          />
+        )
+      ) : null}
+      <List.Section title="In-Game" subtitle={String(inGame.length)}>
+        {inGame.map(renderFriend)}
+      </List.Section>
+      <List.Section title="Online" subtitle={String(online.length)}>
+        {online.map(renderFriend)}
+      </List.Section>
+      <List.Section title="Offline" subtitle={String(offline.length)}>
+        {offline.map(renderFriend)}
+      </List.Section>
+    </List>
+  );
+};
@@ -1,14 +1,17 @@
-import { ActionPanel, Detail, LocalStorage, showToast, Toast } from "@raycast/api";
+import { Action, ActionPanel, Detail, Icon, LocalStorage, showToast, Toast } from "@raycast/api";
 import { useEffect, useRef } from "react";
-import { useGameData } from "../lib/fetcher";
-import { useIsLoggedIn } from "../lib/hooks";
+import { useGameData, useMyGames } from "../lib/fetcher";
+import { useAuthState } from "../lib/hooks";
 import { GameData, GameDataSimple, GameSimple } from "../types";
 import { LaunchActions } from "./Actions";
+import { Achievements } from "./Achievements";
 
 export const GameDetails = ({ game }: { game: GameSimple | GameDataSimple }) => {
   const { data: gameData, isError: error } = useGameData<GameData>({ appid: game.appid });
   const once = useRef(false);
-  const isLoggedIn = useIsLoggedIn();
+  const { isLoggedIn } = useAuthState();
+  const { data: myGames } = useMyGames();
+  const isOwned = Boolean(myGames?.some((g) => g.appid === game.appid));
 
   const markdown = gameData
     ? `
@@ -51,6 +54,9 @@ ${gameData.short_description}
       actions={
         error ? null : (
           <ActionPanel>
+            {isOwned ? (
+              <Action.Push icon={Icon.Trophy} title="View Achievements" target={<Achievements game={game} />} />
+            ) : null}
             <LaunchActions name={game.name} appid={game?.appid} />
           </ActionPanel>
         )
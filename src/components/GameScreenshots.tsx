@@ -0,0 +1,96 @@
+import { Action, ActionPanel, Alert, Clipboard, confirmAlert, Grid, Icon, showToast, Toast } from "@raycast/api";
+import { format } from "date-fns";
+import { useState } from "react";
+import { formatFileSize } from "../utils/steam-library";
+import { deleteScreenshot, SteamScreenshot } from "../utils/steam-screenshots";
+
+export const ScreenshotActions = ({
+  screenshot,
+  onDelete,
+}: {
+  screenshot: SteamScreenshot;
+  onDelete: (screenshot: SteamScreenshot) => void;
+}) => {
+  const copyImage = async () => {
+    try {
+      await Clipboard.copy({ file: screenshot.path });
+      await showToast({ title: "Screenshot Copied", style: Toast.Style.Success });
+    } catch (error) {
+      console.error("Error copying screenshot:", error);
+      await showToast({ title: "Failed to Copy Screenshot", style: Toast.Style.Failure });
+    }
+  };
+
+  const remove = async () => {
+    const confirmed = await confirmAlert({
+      title: "Delete this screenshot?",
+      message: "If Steam Cloud still has a copy it will be downloaded again.",
+      icon: Icon.Trash,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    try {
+      await deleteScreenshot(screenshot);
+      await showToast({ title: "Screenshot Deleted", style: Toast.Style.Success });
+      onDelete(screenshot);
+    } catch (error) {
+      console.error("Error deleting screenshot:", error);
+      await showToast({ title: "Failed to Delete Screenshot", style: Toast.Style.Failure });
+    }
+  };
+
+  return (
+    <ActionPanel.Section>
+      <Action icon={Icon.Clipboard} title="Copy Image" onAction={copyImage} />
+      <Action.Open title="Open Screenshot" icon={Icon.Image} target={screenshot.path} />
+      <Action.ShowInFinder path={screenshot.path} shortcut={{ modifiers: ["cmd", "shift"], key: "f" }} />
+      <Action
+        icon={Icon.Trash}
+        title="Delete Screenshot"
+        style={Action.Style.Destructive}
+        shortcut={{ modifiers: ["ctrl"], key: "x" }}
+        onAction={remove}
+      />
+    </ActionPanel.Section>
+  );
+};
+
+export const GameScreenshots = ({
+  name,
+  screenshots: initialScreenshots,
+  onChange,
+}: {
+  name: string;
+  screenshots: SteamScreenshot[];
+  onChange: () => void;
+}) => {
+  // Pushed views don't get new props, so deletions are tracked here as well as in the parent
+  const [screenshots, setScreenshots] = useState(initialScreenshots);
+
+  const onDelete = (deleted: SteamScreenshot) => {
+    setScreenshots((current) => current.filter((screenshot) => screenshot.path !== deleted.path));
+    onChange();
+  };
+
+  return (
+    <Grid navigationTitle={`${name} • Screenshots`} columns={4} aspectRatio="16/9" fit={Grid.Fit.Fill}>
+      {screenshots.length === 0 ? (
+        <Grid.EmptyView icon={Icon.Image} title="No screenshots left" />
+      ) : (
+        screenshots.map((screenshot) => (
+          <Grid.Item
+            key={screenshot.path}
+            content={{ source: screenshot.thumbnail ?? screenshot.path, fallback: Icon.Image }}
+            title={format(screenshot.capturedAt, "PPp")}
+            subtitle={formatFileSize(screenshot.size)}
+            actions={
+              <ActionPanel>
+                <ScreenshotActions screenshot={screenshot} onDelete={onDelete} />
+              </ActionPanel>
+            }
+          />
+        ))
+      )}
+    </Grid>
+  );
+};
@@ -0,0 +1,86 @@
+import { Action, ActionPanel, Alert, confirmAlert, Icon, List, showToast, Toast } from "@raycast/api";
+import { JSX, useEffect, useState } from "react";
+import { formatFileSize, SteamGame } from "../utils/steam-library";
+import { clearShaderCache, GameStorage as GameStorageInfo, getGameStorage, StorageEntry } from "../utils/steam-storage";
+
+export const GameStorage = ({ game }: { game: SteamGame }) => {
+  const [storage, setStorage] = useState<GameStorageInfo>();
+
+  const loadStorage = async () => {
+    setStorage(undefined);
+    setStorage(await getGameStorage(game));
+  };
+
+  useEffect(() => {
+    loadStorage();
+  }, [game]);
+
+  const clearShaders = async () => {
+    const confirmed = await confirmAlert({
+      title: `Clear shader cache for ${game.name}?`,
+      message: "Steam will rebuild it the next time the game runs, which can cause stutter at first.",
+      icon: Icon.Trash,
+      primaryAction: { title: "Clear", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    try {
+      await clearShaderCache(game);
+      await showToast({ title: "Shader Cache Cleared", message: game.name, style: Toast.Style.Success });
+      loadStorage();
+    } catch (error) {
+      console.error("Error clearing shader cache:", error);
+      await showToast({
+        title: "Failed to Clear Shader Cache",
+        message: "Make sure the game isn't running.",
+        style: Toast.Style.Failure,
+      });
+    }
+  };
+
+  const renderEntry = (title: string, icon: Icon, entry: StorageEntry, subtitle?: string, extra?: JSX.Element) => (
+    <List.Item
+      title={title}
+      subtitle={subtitle}
+      icon={icon}
+      accessories={[{ text: entry.exists ? formatFileSize(entry.size) : "Not present" }]}
+      actions={
+        entry.exists ? (
+          <ActionPanel>
+            <Action.Open title="Open Folder" icon={Icon.Folder} target={entry.path} />
+            <Action.ShowInFinder path={entry.path} />
+            {extra}
+          </ActionPanel>
+        ) : undefined
+      }
+    />
+  );
+
+  return (
+    <List navigationTitle={`${game.name} • Storage`} isLoading={!storage}>
+      {storage ? (
+        <List.Section title="Total" subtitle={formatFileSize(storage.total)}>
+          {renderEntry("Game Files", Icon.HardDrive, storage.install)}
+          {renderEntry(
+            "Workshop Content",
+            Icon.Hammer,
+            storage.workshop,
+            storage.workshop.itemCount ? `${storage.workshop.itemCount} subscribed items` : undefined,
+          )}
+          {renderEntry("Proton Prefix", Icon.Layers, storage.compatdata)}
+          {renderEntry(
+            "Shader Cache",
+            Icon.Bolt,
+            storage.shadercache,
+            undefined,
+            <Action
+              title="Clear Shader Cache"
+              icon={Icon.Trash}
+              style={Action.Style.Destructive}
+              onAction={clearShaders}
+            />,
+          )}
+        </List.Section>
+      ) : null}
+    </List>
+  );
+};
@@ -0,0 +1,244 @@
+import { Action, ActionPanel, Form, Icon, Image, List, showToast, Toast, useNavigation } from "@raycast/api";
+import { useEffect, useMemo, useState } from "react";
+import { AuthError } from "../errors";
+import { useFriends, useGameCategories, useLibraries, useMyGames } from "../lib/fetcher";
+import { useAuthState } from "../lib/hooks";
+import { resolveSteamId } from "../lib/steam-id";
+import { humanTime } from "../lib/util";
+import { FriendSummary, OwnedGame } from "../types";
+import { GameDetails } from "./GameDetails";
+import { LaunchActions } from "./Actions";
+
+// Store category ids, see https://store.steampowered.com/api/appdetails?appids=440&filters=categories
+const MULTIPLAYER_CATEGORIES = [1, 9, 24, 27, 36, 37, 38, 39, 47, 48, 49];
+const COOP_CATEGORIES = [9, 38, 39, 48];
+
+type CategoryFilter = "all" | "multiplayer" | "co-op";
+
+type SharedGame = {
+  appid: number;
+  name: string;
+  img_icon_url: string;
+  // Minutes, indexed the same as the players
+  playtimes: number[];
+  combined: number;
+};
+
+/**
+ * Games everyone in the group owns, most played together first
+ */
+export const GamesInCommon = ({ steamids }: { steamids: string[] }) => {
+  const { state: auth, isLoggedIn, revalidate: revalidateAuth } = useAuthState();
+  const [filter, setFilter] = useState<CategoryFilter>("all");
+  const { data: myGames, isLoading: myGamesLoading } = useMyGames();
+  const { data: libraries, isLoading: librariesLoading, isError: error } = useLibraries(steamids);
+
+  const visible = libraries?.filter((library) => library.games) ?? [];
+  const hidden = libraries?.filter((library) => !library.games) ?? [];
+
+  const shared = useMemo(() => {
+    if (!myGames || !libraries) return [];
+    const others = libraries
+      .filter((library) => library.games)
+      .map((library) => new Map((library.games ?? []).map((game) => [game.appid, game])));
+    // With every library private there's nothing to compare against, not everything in common
+    if (!others.length) return [];
+    return myGames
+      .filter((game) => others.every((games) => games.has(game.appid)))
+      .map((game): SharedGame => {
+        const playtimes = [game, ...others.map((games) => games.get(game.appid) as OwnedGame)].map(
+          (owned) => owned.playtime_forever ?? 0,
+        );
+        return {
+          appid: game.appid,
+          name: game.name,
+          img_icon_url: game.img_icon_url,
+          playtimes,
+          combined: playtimes.reduce((total, playtime) => total + playtime, 0),
+        };
+      })
+      .sort((a, b) => b.combined - a.combined);
+  }, [myGames, libraries]);
+
+  const {
+    data: categories,
+    failed: categoriesFailed,
+    isLoading: categoriesLoading,
+  } = useGameCategories({
+    appids: shared.map((game) => game.appid),
+    execute: filter !== "all",
+  });
+
+  useEffect(() => {
+    if (filter === "all" || !categoriesFailed) return;
+    showToast({
+      style: Toast.Style.Failure,
+      title: `Could not check ${categoriesFailed} ${categoriesFailed === 1 ? "game" : "games"}`,
+      message: "They're left out for now, retrying in a minute",
+    });
+  }, [filter, categoriesFailed]);
+
+  const filtered = shared.filter((game) => {
+    if (filter === "all") return true;
+    const ids = categories?.[game.appid] ?? [];
+    const wanted = filter === "co-op" ? COOP_CATEGORIES : MULTIPLAYER_CATEGORIES;
+    return ids.some((id) => wanted.includes(id));
+  });
+
+  if (!isLoggedIn) return <AuthError state={auth} onRetry={revalidateAuth} />;
+
+  const isLoading = myGamesLoading || librariesLoading || (filter !== "all" && categoriesLoading);
+  const names = ["You", ...visible.map((library) => library.player.personaname)];
+
+  return (
+    <List
+      navigationTitle={`Games in Common • ${visible.map((library) => library.player.personaname).join(", ")}`}
+      isLoading={isLoading}
+      searchBarPlaceholder="Search shared games..."
+      searchBarAccessory={
+        <List.Dropdown tooltip="Filter by Category" onChange={(value) => setFilter(value as CategoryFilter)}>
+          <List.Dropdown.Item title="All Games" value="all" />
+          <List.Dropdown.Item title="Multiplayer" value="multiplayer" />
+          <List.Dropdown.Item title="Co-op" value="co-op" />
+        </List.Dropdown>
+      }
+    >
+      {!isLoading && !filtered.length ? (
+        <List.EmptyView
+          icon={error ? Icon.ExclamationMark : Icon.TwoPeople}
+          title={error ? "Could not load libraries" : "No games in common"}
+          description={
+            error
+              ? String(error.message ?? error)
+              : visible.length
+                ? "Try a different filter or a smaller group"
+                : "None of the selected profiles share their games"
+          }
+        />
+      ) : null}
+      {hidden.length ? (
+        <List.Section
+          title="Private Libraries"
+          subtitle={visible.length ? undefined : "Nothing to compare, none of the selected libraries are public"}
+        >
+          {hidden.map((library) => (
+            <List.Item
+              key={library.player.steamid}
+              title={library.player.personaname}
+              subtitle="Left out, their game details aren't public"
+              icon={
+                library.player.avatarmedium
+                  ? { source: library.player.avatarmedium, mask: Image.Mask.Circle }
+                  : Icon.Lock
+              }
+              accessories={[{ icon: Icon.Lock }]}
+              actions={
+                <ActionPanel>
+                  {library.player.profileurl ? (
+                    <Action.OpenInBrowser icon={Icon.Person} title="Open Profile" url={library.player.profileurl} />
+                  ) : null}
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      ) : null}
+      {visible.length ? (
+        <List.Section title="Shared Games" subtitle={String(filtered.length)}>
+          {filtered.map((game) => (
+            <List.Item
+              key={game.appid}
+              title={game.name}
+              icon={{
+                source: `https://steamcdn-a.akamaihd.net/steamcommunity/public/images/apps/${game.appid}/${game.img_icon_url}.jpg`,
+              }}
+              accessories={[
+                {
+                  text: humanTime(game.combined),
+                  tooltip: names.map((name, i) => `${name}: ${humanTime(game.playtimes[i])}`).join("\n"),
+                  icon: Icon.Clock,
+                },
+              ]}
+              actions={
+                <ActionPanel>
+                  <Action.Push icon={Icon.Sidebar} title="View Game Details" target={<GameDetails game={game} />} />
+                  <LaunchActions name={game.name} appid={game.appid} />
+                  <Action.CopyToClipboard
+                    title="Copy Game Name"
+                    content={game.name}
+                    shortcut={{ modifiers: ["cmd"], key: "c" }}
+                  />
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      ) : null}
+    </List>
+  );
+};
+
+/**
+ * Pick a group of friends, or paste SteamIDs for anyone else
+ */
+export const GamesInCommonForm = ({ friends = [] }: { friends?: FriendSummary[] }) => {
+  const { push } = useNavigation();
+  const { data } = useFriends({ execute: !friends.length });
+  const options = friends.length ? friends : (data ?? []);
+
+  const submit = async (values: { friends: string[]; steamids: string }) => {
+    const inputs = values.steamids
+      .split(/[\s,]+/)
+      .map((id) => id.trim())
+      .filter(Boolean);
+    const toast = inputs.length
+      ? await showToast({ style: Toast.Style.Animated, title: "Looking up profiles" })
+      : undefined;
+    const resolved = await Promise.allSettled(inputs.map((input) => resolveSteamId(input)));
+    const invalid = inputs.filter((_, i) => resolved[i].status === "rejected");
+    if (invalid.length) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid SteamID",
+        message: `Could not find a Steam profile for ${invalid.join(", ")}`,
+      });
+      return;
+    }
+    await toast?.hide();
+    const extra = resolved.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+    const steamids = [...new Set([...values.friends, ...extra])];
+    if (!steamids.length) {
+      await showToast({ style: Toast.Style.Failure, title: "Pick at least one person to compare with" });
+      return;
+    }
+    push(<GamesInCommon steamids={steamids} />);
+  };
+
+  return (
+    <Form
+      navigationTitle="Games in Common"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm icon={Icon.TwoPeople} title="Find Games in Common" onSubmit={submit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TagPicker id="friends" title="Friends">
+        {options.map((friend) => (
+          <Form.TagPicker.Item
+            key={friend.steamid}
+            value={friend.steamid}
+            title={friend.personaname}
+            icon={{ source: friend.avatar, mask: Image.Mask.Circle }}
+          />
+        ))}
+      </Form.TagPicker>
+      <Form.TextField
+        id="steamids"
+        title="Other SteamIDs"
+        placeholder="76561197960287930, STEAM_0:1:4491990, gabelogannewell"
+        info="Steam IDs in any format, profile URLs or custom URL names for people who aren't on your friends list, separated by commas"
+      />
+    </Form>
+  );
+};
@@ -0,0 +1,161 @@
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { format } from "date-fns";
+import { useEffect, useState } from "react";
+import {
+  addLaunchOptionsHistory,
+  getLaunchOptionsHistory,
+  getLaunchOptionsPresets,
+  LaunchOptionsHistoryEntry,
+  LaunchOptionsPreset,
+  saveLaunchOptionsPreset,
+} from "../utils/launch-options";
+import { getDefaultAccount, getLocalAccounts } from "../utils/steam-accounts";
+import { getLaunchOptions, setLaunchOptions } from "../utils/steam-localconfig";
+import { SteamGame } from "../utils/steam-library";
+import { getSteamPath } from "../utils/steam-path";
+import { useSteamClientState } from "../lib/hooks";
+import { confirmSteamClosed } from "../lib/steam-client";
+
+type LaunchOptionsValues = {
+  launchOptions: string;
+  presetTitle: string;
+};
+
+const resolveAccount = async (accountId?: string) => {
+  const steamPath = await getSteamPath();
+  if (!steamPath) throw new Error("Steam installation not found");
+  const account = accountId ?? (await getDefaultAccount(await getLocalAccounts(steamPath)))?.accountId;
+  if (!account) throw new Error("No Steam account found on this computer");
+  return { steamPath, account };
+};
+
+export const LaunchOptionsForm = ({ game, accountId }: { game: SteamGame; accountId?: string }) => {
+  const { pop } = useNavigation();
+  const [isLoading, setIsLoading] = useState(true);
+  const [current, setCurrent] = useState("");
+  const [launchOptions, setLaunchOptionsValue] = useState("");
+  const [presets, setPresets] = useState<LaunchOptionsPreset[]>([]);
+  const [history, setHistory] = useState<LaunchOptionsHistoryEntry[]>([]);
+  const { data: clientState } = useSteamClientState();
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const { steamPath, account } = await resolveAccount(accountId);
+        const [value, savedPresets, gameHistory] = await Promise.all([
+          getLaunchOptions(steamPath, account, game.appid),
+          getLaunchOptionsPresets(),
+          getLaunchOptionsHistory(game.appid),
+        ]);
+        setCurrent(value);
+        setLaunchOptionsValue(value);
+        setPresets(savedPresets);
+        setHistory(gameHistory);
+      } catch (error) {
+        console.error("Error reading launch options:", error);
+        showToast({
+          title: "Failed to Read Launch Options",
+          message: error instanceof Error ? error.message : undefined,
+          style: Toast.Style.Failure,
+        });
+      }
+      setIsLoading(false);
+    })();
+  }, [game, accountId]);
+
+  const submit = async ({ launchOptions: value, presetTitle }: LaunchOptionsValues) => {
+    const next = value.trim();
+    if (next !== current && !(await confirmSteamClosed(clientState))) return;
+    const toast = await showToast({ title: "Saving Launch Options", style: Toast.Style.Animated });
+    try {
+      const { steamPath, account } = await resolveAccount(accountId);
+      if (next !== current) {
+        await setLaunchOptions(steamPath, account, game.appid, next);
+        await addLaunchOptionsHistory(game.appid, current);
+      }
+      if (presetTitle.trim() && next) {
+        await saveLaunchOptionsPreset({ title: presetTitle.trim(), value: next });
+      }
+      toast.style = Toast.Style.Success;
+      toast.title = "Launch Options Saved";
+      toast.message = game.name;
+      pop();
+    } catch (error) {
+      console.error("Error saving launch options:", error);
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to Save Launch Options";
+      toast.message = error instanceof Error ? error.message : undefined;
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle={`${game.name} • Launch Options`}
+      isLoading={isLoading}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm icon={Icon.Check} title="Save Launch Options" onSubmit={submit} />
+          {presets.length > 0 && (
+            <ActionPanel.Submenu icon={Icon.List} title="Use Preset" shortcut={{ modifiers: ["cmd"], key: "p" }}>
+              {presets.map((preset) => (
+                <Action
+                  key={`${preset.title}-${preset.value}`}
+                  title={preset.title}
+                  onAction={() => setLaunchOptionsValue(preset.value)}
+                />
+              ))}
+            </ActionPanel.Submenu>
+          )}
+          {history.length > 0 && (
+            <ActionPanel.Submenu
+              icon={Icon.RotateAntiClockwise}
+              title="Revert to Previous Value"
+              shortcut={{ modifiers: ["cmd"], key: "h" }}
+            >
+              {history.map((entry) => (
+                <Action
+                  key={entry.changedAt}
+                  title={entry.value || "(None)"}
+                  onAction={() => setLaunchOptionsValue(entry.value)}
+                />
+              ))}
+            </ActionPanel.Submenu>
+          )}
+          <Action
+            icon={Icon.Eraser}
+            title="Clear Launch Options"
+            shortcut={{ modifiers: ["cmd", "shift"], key: "backspace" }}
+            onAction={() => setLaunchOptionsValue("")}
+          />
+        </ActionPanel>
+      }
+    >
+      {clientState?.running && (
+        <Form.Description text="Steam is running. It has to be closed before saving, since it overwrites localconfig.vdf when it exits." />
+      )}
+      <Form.TextArea
+        id="launchOptions"
+        title="Launch Options"
+        placeholder="PROTON_LOG=1 %command%"
+        info="%command% stands for the game's own command line"
+        value={launchOptions}
+        onChange={setLaunchOptionsValue}
+      />
+      <Form.TextField
+        id="presetTitle"
+        title="Save as Preset"
+        placeholder="Preset name (optional)"
+        info="Give these launch options a name to reuse them for other games"
+      />
+      {history.length > 0 && (
+        <Form.Description
+          title="Previous Values"
+          text={history
+            .slice(0, 5)
+            .map((entry) => `${format(entry.changedAt, "PP")}: ${entry.value || "(none)"}`)
+            .join("\n")}
+        />
+      )}
+    </Form>
+  );
+};
@@ -1,10 +1,12 @@
 import { Action, ActionPanel, Color, Icon, List } from "@raycast/api";
 import { GameData, GameDataSimple, GameSimple } from "../types";
-import { DefaultActions, LaunchActions } from "./Actions";
+import { DefaultActions, LaunchActions, SteamClientActions } from "./Actions";
 import { GameDetails } from "./GameDetails";
+import { Achievements } from "./Achievements";
 import { humanTime } from "../lib/util";
 import { useGameData } from "../lib/fetcher";
 import { useEffect, useState } from "react";
+import { SteamClientState } from "../utils/steam-process";
 
 export const DynamicGameListItem = ({
   game,
@@ -69,20 +71,39 @@ export const DynamicGameListItem = ({
   );
 };
 
-export const MyGamesListType = ({ game }: { game: GameDataSimple }) => (
-  <List.Item
-    key={game.appid}
-    title={game.name}
-    icon={{
-      source: `https://steamcdn-a.akamaihd.net/steamcommunity/public/images/apps/${game.appid}/${game.img_icon_url}.jpg`,
-    }}
-    accessories={[{ text: game?.playtime_forever ? "Played for " + humanTime(game.playtime_forever) : undefined }]}
-    actions={
-      <ActionPanel>
-        <Action.Push icon={Icon.Sidebar} title="View Game Details" target={<GameDetails game={game} />} />
-        <LaunchActions name={game.name} appid={game?.appid} />
-        <DefaultActions />
-      </ActionPanel>
-    }
-  />
-);
+export const MyGamesListType = ({
+  game,
+  clientState,
+  personal = true,
+}: {
+  game: GameDataSimple;
+  clientState?: SteamClientState;
+  // Off for a friend's library, achievements and launching would be about your own account
+  personal?: boolean;
+}) => {
+  const running = Boolean(clientState?.runningAppId) && clientState?.runningAppId === game.appid;
+  return (
+    <List.Item
+      key={game.appid}
+      title={game.name}
+      icon={{
+        source: `https://steamcdn-a.akamaihd.net/steamcommunity/public/images/apps/${game.appid}/${game.img_icon_url}.jpg`,
+      }}
+      accessories={[
+        running ? { tag: { value: "Running", color: Color.Green }, icon: Icon.Play } : {},
+        { text: game?.playtime_forever ? "Played for " + humanTime(game.playtime_forever) : undefined },
+      ]}
+      actions={
+        <ActionPanel>
+          <Action.Push icon={Icon.Sidebar} title="View Game Details" target={<GameDetails game={game} />} />
+          {personal && (
+            <Action.Push icon={Icon.Trophy} title="View Achievements" target={<Achievements game={game} />} />
+          )}
+          <LaunchActions name={game.name} appid={game?.appid} running={running} launchable={personal} />
+          {personal && <SteamClientActions state={clientState} appid={game.appid} />}
+          {personal && <DefaultActions />}
+        </ActionPanel>
+      }
+    />
+  );
+};
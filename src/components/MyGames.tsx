@@ -1,10 +1,12 @@
 import { List } from "@raycast/api";
-import { useMemo } from "react";
-import { NoApiKey } from "../errors";
-import { useMyGames } from "../lib/fetcher";
-import { useIsLoggedIn } from "../lib/hooks";
+import { useMemo, useState } from "react";
+import { AuthError, PrivateProfileNotice } from "../errors";
+import { useLocalAppDetails, useLocalGames, useMyGames } from "../lib/fetcher";
+import { useAuthState, useSteamClientState, useSteamCollections } from "../lib/hooks";
 import { GameDataSimple } from "../types";
+import { isInCollection } from "../utils/steam-collections";
 import { MyGamesListType } from "./ListItems";
+import { CollectionDropdown } from "./CollectionDropdown";
 
 type SearchType = {
   sortBy?: "name" | "playtime_forever";
@@ -12,22 +14,56 @@ type SearchType = {
   extraFilter?: (g: GameDataSimple) => boolean;
 };
 export const MyGames = ({ sortBy = "name", order = "asc", extraFilter = () => true }: SearchType) => {
-  const { data: myGames, isLoading } = useMyGames();
+  const { data: apiGames, isLoading: apiLoading } = useMyGames();
   const direction = order === "asc" ? 1 : -1;
-  const isLoggedIn = useIsLoggedIn();
+  const { state: auth, isLoggedIn, revalidate: revalidateAuth } = useAuthState();
+  // The Web API can't see private libraries, so show what this computer knows about instead
+  const isPrivate = auth.status === "private-profile";
+  const { data: localGames, isLoading: localLoading } = useLocalGames({ execute: isPrivate });
+  const myGames = isPrivate ? localGames : apiGames;
+  const { data: collections } = useSteamCollections();
+  const { data: clientState } = useSteamClientState();
+  const [collectionId, setCollectionId] = useState("");
+  const collection = collections?.find((c) => c.id === collectionId);
+  // The Web API only knows names and playtime, rules about installs, types or features need Steam's local files
+  const { data: localDetails, isLoading: detailsLoading } = useLocalAppDetails({
+    appids: myGames?.map((game) => game.appid) ?? [],
+    execute: Boolean(collection?.filterGroups?.length),
+  });
+  const isLoading = (isPrivate ? localLoading : apiLoading) || detailsLoading;
 
   const gamesFiltered = useMemo(() => {
     return myGames
       ?.filter((g) => g?.name)
       ?.sort((a, b) => (a?.[sortBy] > b?.[sortBy] ? direction : -direction))
-      ?.filter(extraFilter);
-  }, [direction, extraFilter, myGames, sortBy]);
+      ?.filter(extraFilter)
+      ?.filter(
+        (g) =>
+          !collection ||
+          isInCollection(collection, {
+            appid: g.appid,
+            name: g.name,
+            played: Boolean(g.playtime_forever),
+            ...localDetails?.[g.appid],
+          }),
+      );
+  }, [collection, direction, extraFilter, localDetails, myGames, sortBy]);
 
-  if (!isLoggedIn) return <NoApiKey />;
+  if (!isLoggedIn && !(isPrivate && (localLoading || localGames?.length))) {
+    return <AuthError state={auth} onRetry={revalidateAuth} />;
+  }
   return (
-    <List navigationTitle="My Steam Account" isLoading={isLoading} searchBarPlaceholder="Search your games...">
+    <List
+      navigationTitle="My Steam Account"
+      isLoading={isLoading}
+      searchBarPlaceholder="Search your games..."
+      searchBarAccessory={
+        collections?.length ? <CollectionDropdown collections={collections} onChange={setCollectionId} /> : undefined
+      }
+    >
+      {isPrivate ? <PrivateProfileNotice state={auth} onRetry={revalidateAuth} /> : null}
       {gamesFiltered?.map((game) => (
-        <MyGamesListType key={game.appid} game={game} />
+        <MyGamesListType key={game.appid} game={game} clientState={clientState} />
       ))}
     </List>
   );
@@ -1,16 +1,32 @@
 import { List } from "@raycast/api";
-import { NoApiKey } from "../errors";
-import { useRecentlyPlayedGames } from "../lib/fetcher";
-import { useIsLoggedIn } from "../lib/hooks";
+import { useMemo } from "react";
+import { AuthError, PrivateProfileNotice } from "../errors";
+import { useLocalGames, useRecentlyPlayedGames } from "../lib/fetcher";
+import { useAuthState } from "../lib/hooks";
 import { MyGamesListType } from "./ListItems";
 
 export const RecentlyPlayedGames = () => {
-  const { data: recentGames, isLoading } = useRecentlyPlayedGames();
-  const isLoggedIn = useIsLoggedIn();
+  const { data: apiGames, isLoading: apiLoading } = useRecentlyPlayedGames();
+  const { state: auth, isLoggedIn, revalidate: revalidateAuth } = useAuthState();
+  const isPrivate = auth.status === "private-profile";
+  const { data: localGames, isLoading: localLoading } = useLocalGames({ execute: isPrivate });
+  // Same idea as GetRecentlyPlayedGames: anything with playtime in the last two weeks, latest first
+  const localRecent = useMemo(
+    () =>
+      localGames
+        ?.filter((game) => game.playtime_2weeks)
+        .sort((a, b) => (b.rtime_last_played ?? 0) - (a.rtime_last_played ?? 0)),
+    [localGames],
+  );
+  const recentGames = isPrivate ? localRecent : apiGames;
+  const isLoading = isPrivate ? localLoading : apiLoading;
 
-  if (!isLoggedIn) return <NoApiKey />;
+  if (!isLoggedIn && !(isPrivate && (localLoading || localGames?.length))) {
+    return <AuthError state={auth} onRetry={revalidateAuth} />;
+  }
   return (
     <List navigationTitle="Recently Played Games" isLoading={isLoading}>
+      {isPrivate ? <PrivateProfileNotice state={auth} onRetry={revalidateAuth} /> : null}
       {recentGames?.map((game) => (
         <MyGamesListType key={game.appid} game={game} />
       ))}
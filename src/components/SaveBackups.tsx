@@ -0,0 +1,249 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  confirmAlert,
+  Form,
+  Icon,
+  List,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { format } from "date-fns";
+import { useEffect, useState } from "react";
+import {
+  createSnapshot,
+  deleteSnapshot,
+  getCustomSavePaths,
+  getSaveLocations,
+  getSnapshots,
+  restoreSnapshot,
+  SaveLocation,
+  SaveSnapshot,
+  setCustomSavePaths,
+} from "../utils/save-backups";
+import { formatFileSize, SteamGame } from "../utils/steam-library";
+import { getSteamPath } from "../utils/steam-path";
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : undefined);
+
+const AddSaveFolder = ({ game, onAdd }: { game: SteamGame; onAdd: () => void }) => {
+  const { pop } = useNavigation();
+  const [pathError, setPathError] = useState<string>();
+
+  const submit = async ({ path }: { path: string }) => {
+    if (!path.trim()) {
+      setPathError("Enter a folder");
+      return;
+    }
+    try {
+      await setCustomSavePaths(game.appid, [...(await getCustomSavePaths(game.appid)), path.trim()]);
+    } catch (error) {
+      console.error("Error adding save folder:", error);
+      await showToast({ title: "Failed to Add Save Folder", message: errorMessage(error), style: Toast.Style.Failure });
+      return;
+    }
+    onAdd();
+    pop();
+  };
+
+  return (
+    <Form
+      navigationTitle={`${game.name} • Add Save Folder`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm icon={Icon.Plus} title="Add Save Folder" onSubmit={submit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="path"
+        title="Folder"
+        placeholder="drive_c/users/steamuser/Documents/My Games/..."
+        info="An absolute path, a path starting with ~, or a path inside the game's Proton prefix"
+        error={pathError}
+        onChange={() => setPathError(undefined)}
+      />
+    </Form>
+  );
+};
+
+export const SaveBackups = ({ game, accountId }: { game: SteamGame; accountId?: string }) => {
+  const [locations, setLocations] = useState<SaveLocation[]>();
+  const [snapshots, setSnapshots] = useState<SaveSnapshot[]>();
+
+  const load = async () => {
+    try {
+      const steamPath = await getSteamPath();
+      if (!steamPath) throw new Error("Steam installation not found");
+      const [saveLocations, gameSnapshots] = await Promise.all([
+        getSaveLocations(steamPath, game, accountId),
+        getSnapshots(game.appid),
+      ]);
+      setLocations(saveLocations);
+      setSnapshots(gameSnapshots);
+    } catch (error) {
+      console.error("Error loading save backups:", error);
+      setLocations([]);
+      setSnapshots([]);
+      showToast({ title: "Failed to Load Save Backups", message: errorMessage(error), style: Toast.Style.Failure });
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [game, accountId]);
+
+  const backUp = async () => {
+    const toast = await showToast({ title: "Backing Up Saves", message: game.name, style: Toast.Style.Animated });
+    try {
+      const steamPath = await getSteamPath();
+      if (!steamPath) throw new Error("Steam installation not found");
+      await createSnapshot(steamPath, game, accountId);
+      toast.style = Toast.Style.Success;
+      toast.title = "Saves Backed Up";
+      load();
+    } catch (error) {
+      console.error("Error backing up saves:", error);
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to Back Up Saves";
+      toast.message = errorMessage(error);
+    }
+  };
+
+  const restore = async (snapshot: SaveSnapshot) => {
+    const confirmed = await confirmAlert({
+      title: `Restore saves from ${format(snapshot.createdAt, "PPp")}?`,
+      message: "The game's current save folders are replaced. They are backed up first, so this can be undone.",
+      icon: Icon.RotateAntiClockwise,
+      primaryAction: { title: "Restore", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    const toast = await showToast({ title: "Restoring Saves", message: game.name, style: Toast.Style.Animated });
+    try {
+      const steamPath = await getSteamPath();
+      if (!steamPath) throw new Error("Steam installation not found");
+      await restoreSnapshot(steamPath, game, snapshot, accountId);
+      toast.style = Toast.Style.Success;
+      toast.title = "Saves Restored";
+      load();
+    } catch (error) {
+      console.error("Error restoring saves:", error);
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to Restore Saves";
+      toast.message = errorMessage(error);
+    }
+  };
+
+  const remove = async (snapshot: SaveSnapshot) => {
+    const confirmed = await confirmAlert({
+      title: "Delete this backup?",
+      icon: Icon.Trash,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    try {
+      await deleteSnapshot(snapshot);
+      await showToast({ title: "Backup Deleted", style: Toast.Style.Success });
+      load();
+    } catch (error) {
+      console.error("Error deleting backup:", error);
+      await showToast({ title: "Failed to Delete Backup", style: Toast.Style.Failure });
+    }
+  };
+
+  const removeFolder = async (location: SaveLocation) => {
+    try {
+      const paths = await getCustomSavePaths(game.appid);
+      await setCustomSavePaths(
+        game.appid,
+        paths.filter((path) => path !== location.label),
+      );
+      load();
+    } catch (error) {
+      console.error("Error removing save folder:", error);
+      await showToast({
+        title: "Failed to Remove Save Folder",
+        message: errorMessage(error),
+        style: Toast.Style.Failure,
+      });
+    }
+  };
+
+  const commonActions = (
+    <ActionPanel.Section>
+      <Action
+        icon={Icon.SaveDocument}
+        title="Back up Saves Now"
+        shortcut={{ modifiers: ["cmd"], key: "s" }}
+        onAction={backUp}
+      />
+      <Action.Push
+        icon={Icon.Plus}
+        title="Add Save Folder"
+        shortcut={{ modifiers: ["cmd"], key: "n" }}
+        target={<AddSaveFolder game={game} onAdd={load} />}
+      />
+    </ActionPanel.Section>
+  );
+
+  return (
+    <List navigationTitle={`${game.name} • Save Backups`} isLoading={!locations || !snapshots}>
+      <List.Section title="Save Locations">
+        {locations?.map((location) => (
+          <List.Item
+            key={location.id}
+            title={location.label}
+            subtitle={location.source === "custom" ? location.path : undefined}
+            icon={location.source === "cloud" ? Icon.Cloud : Icon.Folder}
+            accessories={[location.exists ? {} : { text: "Not found", icon: Icon.ExclamationMark }]}
+            actions={
+              <ActionPanel>
+                {commonActions}
+                {location.exists && (
+                  <ActionPanel.Section>
+                    <Action.Open title="Open Folder" icon={Icon.Folder} target={location.path} />
+                    <Action.ShowInFinder path={location.path} />
+                  </ActionPanel.Section>
+                )}
+                {location.source === "custom" && (
+                  <Action
+                    icon={Icon.Minus}
+                    title="Remove Save Folder"
+                    style={Action.Style.Destructive}
+                    onAction={() => removeFolder(location)}
+                  />
+                )}
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+      <List.Section title="Backups" subtitle={snapshots?.length ? String(snapshots.length) : undefined}>
+        {snapshots?.map((snapshot) => (
+          <List.Item
+            key={snapshot.path}
+            title={format(snapshot.createdAt, "PPp")}
+            icon={Icon.Box}
+            accessories={[{ text: formatFileSize(snapshot.size) }]}
+            actions={
+              <ActionPanel>
+                <Action icon={Icon.RotateAntiClockwise} title="Restore Backup" onAction={() => restore(snapshot)} />
+                <Action.ShowInFinder path={snapshot.path} />
+                <Action
+                  icon={Icon.Trash}
+                  title="Delete Backup"
+                  style={Action.Style.Destructive}
+                  shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                  onAction={() => remove(snapshot)}
+                />
+                {commonActions}
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+};
@@ -0,0 +1,65 @@
+import { Action, ActionPanel, Icon, List } from "@raycast/api";
+import { useState } from "react";
+import { useResolvedSteamId } from "../lib/fetcher";
+import { useCredentials } from "../lib/hooks";
+import { formatSteamId, parseSteamId, steamId64ToAccountId } from "../utils/steam-id";
+
+const FORMATS = [
+  { key: "steamId64", title: "SteamID64" },
+  { key: "steamId2", title: "SteamID2" },
+  { key: "steamId3", title: "SteamID3" },
+  { key: "accountId", title: "Account ID" },
+  { key: "profileUrl", title: "Profile URL" },
+] as const;
+
+export const SteamIdConverter = () => {
+  const [credentials] = useCredentials();
+  const steamid = credentials?.steamid ?? "";
+  const [searchText, setSearchText] = useState("");
+  // Start from the configured account so the command is useful without typing
+  const input = searchText.trim() || steamid;
+  const parsed = parseSteamId(input);
+  const { data: steamId64, isLoading, isError: error } = useResolvedSteamId({ input, execute: Boolean(parsed) });
+  const formats = steamId64 ? formatSteamId(Number(steamId64ToAccountId(steamId64))) : undefined;
+
+  return (
+    <List
+      navigationTitle="Convert Steam ID"
+      isLoading={isLoading}
+      searchBarPlaceholder="SteamID64, STEAM_0:1:..., [U:1:...], profile URL or custom URL name"
+      onSearchTextChange={setSearchText}
+      throttle
+    >
+      {!formats ? (
+        <List.EmptyView
+          icon={error || (input && !parsed) ? Icon.ExclamationMark : Icon.Person}
+          title={
+            error ? "Could not resolve Steam ID" : input && !parsed ? "Not a Steam ID" : "Enter a Steam ID to convert"
+          }
+          description={
+            error
+              ? String(error.message ?? error)
+              : "Paste any Steam ID format, a profile link or the name from a steamcommunity.com/id/ link"
+          }
+        />
+      ) : (
+        <List.Section title={searchText.trim() ? "Formats" : "Your Steam ID"}>
+          {FORMATS.map(({ key, title }) => (
+            <List.Item
+              key={key}
+              title={formats[key]}
+              subtitle={title}
+              icon={Icon.Person}
+              actions={
+                <ActionPanel>
+                  <Action.CopyToClipboard title={`Copy ${title}`} content={formats[key]} />
+                  <Action.OpenInBrowser title="Open Profile" url={formats.profileUrl} />
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      )}
+    </List>
+  );
+};
@@ -1,36 +1,170 @@
-import { Action, ActionPanel, Color, Detail, getPreferenceValues, openCommandPreferences } from "@raycast/api";
+import { Action, ActionPanel, Color, Detail, Icon, List, openCommandPreferences } from "@raycast/api";
+import { CredentialsForm } from "./components/CredentialsForm";
+import { AuthState } from "./lib/auth";
+import { getCredentials } from "./lib/credentials";
+
+const API_KEY_URL = "https://steamcommunity.com/dev/apikey";
+const PRIVACY_SETTINGS_URL = "https://steamcommunity.com/my/edit/settings";
+
+const SETUP_HELP = `Grab an API key from Steam here:
+
+[${API_KEY_URL}](${API_KEY_URL})
+
+To find your Steam ID, visit this page and look toward the top just under your user name. A profile link or the name from a custom profile URL works too.
+
+[https://store.steampowered.com/account/](https://store.steampowered.com/account/)`;
+
+// Which setting to change depends on how much of the profile is hidden
+const privateProfileHelp = (setting: "profile" | "game-details") =>
+  [
+    setting === "profile"
+      ? "Your Steam profile is private, so the Steam API can't see your games. In your profile's privacy settings, set **My profile** to **Public**, and **Game details** to **Public** as well."
+      : "Your profile is public, but your **Game details** are not, so the Steam API can't see your games. In your profile's privacy settings, set **Game details** to **Public**.",
+    "Friends Only isn't enough: the API only sees what anyone on the internet can see.",
+    `[Open privacy settings](${PRIVACY_SETTINGS_URL})`,
+    "Changes can take a few minutes to reach the API. Until then, lists fall back to the games installed or played on this computer where they can.",
+  ].join("\n\n");
+
+const screens: Record<Exclude<AuthState["status"], "valid" | "validating">, { title: string; body: string }> = {
+  unconfigured: {
+    title: "Missing credentials",
+    body: `To access your games, you need to set your API key and Steam ID.\n\n${SETUP_HELP}\n\n\nPress \`Enter\` to set them up`,
+  },
+  "invalid-key": {
+    title: "Invalid API key",
+    body: `Steam rejected your API key. It may have been revoked, or only part of it was copied.\n\nCheck or create a key here:\n\n[${API_KEY_URL}](${API_KEY_URL})`,
+  },
+  "invalid-id": {
+    title: "Steam ID not found",
+    body: `Your API key works, but the Steam ID doesn't match an account.\n\nUse your SteamID64 (17 digits, starting with 7656), \`STEAM_0:...\`, \`[U:1:...]\`, a profile link or the name from a custom profile URL.`,
+  },
+  "private-profile": {
+    title: "Game details are private",
+    body: privateProfileHelp("game-details"),
+  },
+  "rate-limited": {
+    title: "Rate limited",
+    body: "Steam is limiting requests from your API key. Wait a few minutes and try again.",
+  },
+  unreachable: {
+    title: "Steam is unreachable",
+    body: "Couldn't reach the Steam API. Check your connection, or whether Steam is down for maintenance.",
+  },
+};
+
+/**
+ * A recovery screen for whatever stops the account from being used
+ */
+export const AuthError = ({ state, onRetry }: { state: AuthState; onRetry?: () => void }) => {
+  if (state.status === "valid") return null;
+  if (state.status === "validating") {
+    return <Detail isLoading navigationTitle="Checking your Steam account" markdown="Checking your Steam account..." />;
+  }
+
+  const { token, steamid } = getCredentials();
+  const screen =
+    state.status === "private-profile" && state.setting === "profile"
+      ? { title: "Profile is private", body: privateProfileHelp("profile") }
+      : screens[state.status];
+  const details = "message" in state ? `\n\n> ${state.message}` : "";
+  const setUp = (
+    <Action.Push icon={Icon.Key} title="Set up Steam Account" target={<CredentialsForm onSaved={onRetry} />} />
+  );
+  const retry = onRetry ? (
+    <Action
+      icon={Icon.ArrowClockwise}
+      title="Try Again"
+      shortcut={{ modifiers: ["cmd"], key: "r" }}
+      onAction={onRetry}
+    />
+  ) : null;
 
-export const NoApiKey = () => {
-  const { token, steamid } = getPreferenceValues();
-  const markdown =
-    "To access your games, you need to set your API key and Steam ID in the preferences.\n\nGrab an API key from Steam here: \n\n[https://steamcommunity.com/dev/apikey](https://steamcommunity.com/dev/apikey)\n\nTo find your Steam ID, visit this page and look toward the top just under your user name.\n\n[https://store.steampowered.com/account/](https://store.steampowered.com/account/)\n\n\nPress `Enter` to continue";
   return (
     <Detail
-      markdown={markdown}
-      navigationTitle="Missing or incorrect credentials"
+      markdown={`# ${screen.title}\n\n${screen.body}${details}`}
+      navigationTitle={screen.title}
       metadata={
         <Detail.Metadata>
           <Detail.Metadata.TagList title="Api Key">
-            {token ? (
-              <Detail.Metadata.TagList.Item text="OK" color={Color.Green} />
-            ) : (
+            {!token ? (
               <Detail.Metadata.TagList.Item text="Not set" color={Color.Red} />
+            ) : state.status === "invalid-key" ? (
+              <Detail.Metadata.TagList.Item text="Rejected" color={Color.Red} />
+            ) : (
+              <Detail.Metadata.TagList.Item text="OK" color={Color.Green} />
             )}
           </Detail.Metadata.TagList>
           <Detail.Metadata.TagList title="Steam ID">
-            {steamid ? (
-              <Detail.Metadata.TagList.Item text="OK" color={Color.Green} />
-            ) : (
+            {!steamid ? (
               <Detail.Metadata.TagList.Item text="Not set" color={Color.Red} />
+            ) : state.status === "invalid-id" ? (
+              <Detail.Metadata.TagList.Item text="Not found" color={Color.Red} />
+            ) : state.status === "private-profile" ? (
+              <Detail.Metadata.TagList.Item text="Private" color={Color.Orange} />
+            ) : (
+              <Detail.Metadata.TagList.Item text="OK" color={Color.Green} />
             )}
           </Detail.Metadata.TagList>
         </Detail.Metadata>
       }
       actions={
         <ActionPanel>
-          <Action title="Open Extension Preferences" onAction={openCommandPreferences} />
+          {state.status === "private-profile" ? (
+            <>
+              <Action.OpenInBrowser icon={Icon.Lock} title="Open Privacy Settings" url={PRIVACY_SETTINGS_URL} />
+              {retry}
+              {setUp}
+            </>
+          ) : state.status === "rate-limited" || state.status === "unreachable" ? (
+            <>
+              {retry}
+              {setUp}
+            </>
+          ) : (
+            <>
+              {setUp}
+              {state.status === "invalid-key" || state.status === "unconfigured" ? (
+                <Action.OpenInBrowser icon={Icon.Globe} title="Get an Api Key" url={API_KEY_URL} />
+              ) : null}
+              {retry}
+            </>
+          )}
+          <Action icon={Icon.Gear} title="Open Extension Preferences" onAction={openCommandPreferences} />
         </ActionPanel>
       }
     />
   );
 };
+
+/**
+ * Sits at the top of lists that show local games because the Web API can't see the account's
+ */
+export const PrivateProfileNotice = ({ state, onRetry }: { state: AuthState; onRetry?: () => void }) => (
+  <List.Item
+    title="Showing games from this computer"
+    subtitle={
+      state.status === "private-profile" && state.setting === "profile"
+        ? "Your profile is private"
+        : "Your game details are private"
+    }
+    icon={{ source: Icon.Lock, tintColor: Color.Orange }}
+    actions={
+      <ActionPanel>
+        <Action.Push
+          icon={Icon.QuestionMark}
+          title="How to Fix"
+          target={<AuthError state={state} onRetry={onRetry} />}
+        />
+        <Action.OpenInBrowser icon={Icon.Lock} title="Open Privacy Settings" url={PRIVACY_SETTINGS_URL} />
+        {onRetry ? (
+          <Action
+            icon={Icon.ArrowClockwise}
+            title="Check Again"
+            shortcut={{ modifiers: ["cmd"], key: "r" }}
+            onAction={onRetry}
+          />
+        ) : null}
+      </ActionPanel>
+    }
+  />
+);
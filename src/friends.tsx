@@ -0,0 +1,12 @@
+import { SWRConfig } from "swr";
+import { Friends } from "./components/Friends";
+import { cacheProvider } from "./lib/cache";
+import { isFakeData } from "./lib/fake";
+
+export default function Command() {
+  return (
+    <SWRConfig value={{ provider: isFakeData ? undefined : cacheProvider }}>
+      <Friends />
+    </SWRConfig>
+  );
+}
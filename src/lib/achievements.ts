@@ -0,0 +1,151 @@
+import { OwnedGame, PlayerAchievement, SchemaAchievement } from "../types";
+import { getSteamApi, isAccessDenied, SteamApiError, unwrap } from "./steam-api";
+import { getMySteamId } from "./steam-id";
+import { mapWithConcurrency } from "./util";
+
+export type Achievement = {
+  apiname: string;
+  name: string;
+  description?: string;
+  icon: string;
+  iconGray: string;
+  hidden: boolean;
+  achieved: boolean;
+  // Unix timestamp
+  unlockedAt?: number;
+  // Share of all players who have it, 0-100
+  globalPercent?: number;
+};
+
+export type GameAchievements = {
+  appid: number;
+  name: string;
+  achievements: Achievement[];
+  unlocked: number;
+  total: number;
+  // 0-100
+  percent: number;
+};
+
+// Achievement requests are one call per game, keep it gentle on the rate limit
+const PROGRESS_CONCURRENCY = 4;
+
+export const completion = (unlocked: number, total: number) => (total ? Math.floor((unlocked / total) * 100) : 0);
+
+// Rarest first, achievements without a global percentage last
+export const byRarity = (a: Achievement, b: Achievement) => (a.globalPercent ?? 101) - (b.globalPercent ?? 101);
+
+/**
+ * Merge the player's progress with the schema's display names and the global unlock rates
+ */
+export function combineAchievements(
+  player: PlayerAchievement[],
+  schema: SchemaAchievement[],
+  global: { name: string; percent: number | string }[],
+): Achievement[] {
+  const schemaByName = new Map(schema.map((achievement) => [achievement.name, achievement]));
+  const percentByName = new Map(global.map((achievement) => [achievement.name, Number(achievement.percent)]));
+  return player.map((progress) => {
+    const info = schemaByName.get(progress.apiname);
+    return {
+      apiname: progress.apiname,
+      name: info?.displayName || progress.name || progress.apiname,
+      description: info?.description || progress.description || undefined,
+      icon: info?.icon ?? "",
+      iconGray: info?.icongray ?? "",
+      hidden: Boolean(info?.hidden),
+      achieved: progress.achieved === 1,
+      unlockedAt: progress.unlocktime || undefined,
+      globalPercent: percentByName.get(progress.apiname),
+    };
+  });
+}
+
+/**
+ * Just the player's progress for a game, without names or rarity. Undefined for games without achievements.
+ */
+async function fetchPlayerAchievements(steamid: string, appid: number) {
+  const result = await (await getSteamApi()).userStats.getPlayerAchievements(steamid, appid);
+  // Games without stats answer with a 400 rather than an empty list
+  if (!result.ok && result.error.status === 400) return undefined;
+  if (!result.ok && isAccessDenied(result.error)) {
+    throw new SteamApiError("Achievements are private for this profile", result.error.kind, result.error.status);
+  }
+  const { playerstats } = unwrap(result);
+  return playerstats.achievements?.length ? playerstats : undefined;
+}
+
+export async function fetchGameAchievements(appid: number): Promise<GameAchievements | undefined> {
+  const steamid = await getMySteamId();
+  const api = await getSteamApi();
+  const [player, schema, global] = await Promise.all([
+    fetchPlayerAchievements(steamid, appid),
+    api.userStats.getSchemaForGame(appid),
+    api.userStats.getGlobalAchievementPercentages(appid),
+  ]);
+  if (!player?.achievements) return undefined;
+
+  // Names and rarity are nice to have, the list still works without them
+  const achievements = combineAchievements(
+    player.achievements,
+    (schema.ok && schema.data.game?.availableGameStats?.achievements) || [],
+    (global.ok && global.data.achievementpercentages?.achievements) || [],
+  );
+  const unlocked = achievements.filter((achievement) => achievement.achieved).length;
+  return {
+    appid,
+    name: player.gameName ?? "",
+    achievements,
+    unlocked,
+    total: achievements.length,
+    percent: completion(unlocked, achievements.length),
+  };
+}
+
+export type AchievementProgress = {
+  games: GameAchievements[];
+  // Games whose progress couldn't be fetched this time, e.g. because of the rate limit
+  failed: number;
+};
+
+/**
+ * Completion for every played game in the library that has achievements. Games that fail keep
+ * their previous progress, if any, and throws only when every game failed.
+ */
+export async function fetchAchievementProgress(
+  games: OwnedGame[],
+  previous?: AchievementProgress,
+): Promise<AchievementProgress> {
+  const steamid = await getMySteamId();
+  // Only games with stats and some playtime can have unlocks
+  const candidates = games.filter((game) => game.has_community_visible_stats && game.playtime_forever > 0);
+  let failed = 0;
+  let lastError: unknown;
+  const progress = await mapWithConcurrency(
+    candidates,
+    PROGRESS_CONCURRENCY,
+    async (game): Promise<GameAchievements | undefined> => {
+      try {
+        const player = await fetchPlayerAchievements(steamid, game.appid);
+        if (!player?.achievements) return undefined;
+        const unlocked = player.achievements.filter((achievement) => achievement.achieved === 1).length;
+        return {
+          appid: game.appid,
+          name: game.name,
+          // Left out to keep the cache small, the per-game view fetches the full list
+          achievements: [],
+          unlocked,
+          total: player.achievements.length,
+          percent: completion(unlocked, player.achievements.length),
+        };
+      } catch (error) {
+        console.error(`Error fetching achievements for ${game.appid}:`, error);
+        failed++;
+        lastError = error;
+        return previous?.games.find((known) => known.appid === game.appid);
+      }
+    },
+  );
+  if (failed && failed === candidates.length) throw lastError;
+  return { games: progress.filter((game): game is GameAchievements => Boolean(game)), failed };
+}
@@ -0,0 +1,90 @@
+import { createHash } from "crypto";
+import { getPreferenceValues } from "@raycast/api";
+import { PlayerSummary } from "../types";
+import { Credentials } from "./credentials";
+import { createSteamApi, SteamApiError } from "./steam-api";
+import { resolveSteamId } from "./steam-id";
+
+// communityvisibilitystate, anything else is private or friends-only
+const PUBLIC_VISIBILITY = 3;
+
+export type AuthState =
+  | { status: "unconfigured"; missing: (keyof Credentials)[] }
+  | { status: "validating" }
+  | { status: "valid"; steamid: string; player: PlayerSummary }
+  | { status: "invalid-key"; message: string }
+  | { status: "invalid-id"; message: string }
+  // The account exists but the API can't see its games. Either the whole profile or just
+  // its game details are private (friends-only counts as private too).
+  | { status: "private-profile"; steamid: string; player: PlayerSummary; setting: "profile" | "game-details" }
+  | { status: "rate-limited"; message: string }
+  // Network failures and Steam outages, worth retrying as is
+  | { status: "unreachable"; message: string };
+
+export const missingCredentials = ({ token, steamid }: Credentials) =>
+  (["token", "steamid"] as const).filter((field) => !(field === "token" ? token : steamid));
+
+/**
+ * What a failed sign-in check means. Only for validateCredentials' own requests, where a 401/403
+ * can only be the key: other endpoints answer private data with them too.
+ */
+function authStateForError(error: unknown): AuthState {
+  if (!(error instanceof SteamApiError)) {
+    return { status: "unreachable", message: String((error as Error)?.message ?? error) };
+  }
+  switch (error.kind) {
+    case "missing-credentials":
+      return { status: "unconfigured", missing: ["token"] };
+    case "unauthorized":
+    case "forbidden":
+      return { status: "invalid-key", message: "Steam rejected the API key" };
+    case "invalid-steam-id":
+    case "not-found":
+      return { status: "invalid-id", message: error.message };
+    case "rate-limited":
+      return { status: "rate-limited", message: "Steam is rate limiting requests from this API key" };
+    default:
+      return { status: "unreachable", message: error.message };
+  }
+}
+
+/**
+ * Check a key and Steam ID against the API: the key has to work, the ID has to belong
+ * to an account, and that account's games have to be visible.
+ */
+export async function validateCredentials(credentials: Credentials): Promise<AuthState> {
+  const missing = missingCredentials(credentials);
+  if (missing.length) return { status: "unconfigured", missing };
+
+  const { apiBaseUrl } = getPreferenceValues();
+  const api = createSteamApi({ key: credentials.token, baseUrl: apiBaseUrl?.trim() || undefined });
+  try {
+    const steamid = await resolveSteamId(credentials.steamid, api);
+    const summaries = await api.user.getPlayerSummaries([steamid]);
+    if (!summaries.ok) return authStateForError(summaries.error);
+    const player = summaries.data.response.players[0];
+    if (!player) return { status: "invalid-id", message: `No Steam account has the ID ${steamid}` };
+
+    if (player.communityvisibilitystate !== PUBLIC_VISIBILITY) {
+      return { status: "private-profile", steamid, player, setting: "profile" };
+    }
+
+    // Game details have their own privacy setting, which only shows as an empty response
+    const owned = await api.player.getOwnedGames(steamid, { includeAppInfo: false });
+    if (!owned.ok) return authStateForError(owned.error);
+    if (owned.data.response.game_count === undefined) {
+      return { status: "private-profile", steamid, player, setting: "game-details" };
+    }
+    return { status: "valid", steamid, player };
+  } catch (error) {
+    return authStateForError(error);
+  }
+}
+
+// Hashed so the API key doesn't end up in the swr cache file
+export const authCacheKey = ({ token, steamid }: Credentials) => [
+  "auth",
+  createHash("sha256").update(`${token}:${steamid}`).digest("hex"),
+];
+
+export const isAuthCacheKey = (key: unknown) => Array.isArray(key) && key[0] === "auth";
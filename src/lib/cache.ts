@@ -3,6 +3,7 @@ import { readFileSync } from "fs";
 import { writeFile } from "fs/promises";
 import { resolve } from "path";
 import { Cache, State } from "swr";
+import { isErrnoCode } from "./util";
 
 const CACHE_KEY = "swr-cache";
 
@@ -18,9 +19,8 @@ export function cacheProvider() {
     const cache = readFileSync(path, { encoding: "utf-8" });
     // console.log("Loaded cache", cache.length, "bytes", cache);
     map = new Map(cache ? JSON.parse(cache.toString()) : null);
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  } catch (e: any) {
-    if (e?.code !== "ENOENT") {
+  } catch (e) {
+    if (!isErrnoCode(e, "ENOENT")) {
       console.error("Failed reading cache", e);
     }
     map = new Map();
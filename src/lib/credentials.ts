@@ -0,0 +1,65 @@
+import { getPreferenceValues, LocalStorage } from "@raycast/api";
+
+// LocalStorage is encrypted by Raycast. "Clear Recent History" skips this key so it doesn't sign people out.
+export const CREDENTIALS_STORAGE_KEY = "steam-credentials";
+
+export interface Credentials {
+  token: string;
+  steamid: string;
+}
+
+// What the setup form saved, read once per command by loadCredentials
+let saved: Partial<Credentials> | undefined;
+let loading: Promise<Partial<Credentials>> | undefined;
+
+async function readSavedCredentials(): Promise<Partial<Credentials>> {
+  try {
+    const stored = await LocalStorage.getItem<string>(CREDENTIALS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error("Failed reading saved credentials", e);
+    return {};
+  }
+}
+
+/**
+ * The API key and Steam ID to use. Extension preferences take priority over
+ * what was entered in the setup form, field by field. Saved values are only
+ * there once loadCredentials has finished.
+ */
+export function getCredentials(): Credentials {
+  const { token, steamid } = getPreferenceValues();
+  return {
+    token: token?.trim() || saved?.token?.trim() || "",
+    steamid: steamid?.trim() || saved?.steamid?.trim() || "",
+  };
+}
+
+/**
+ * Like getCredentials, but waits for the saved values to be read
+ */
+export async function loadCredentials(): Promise<Credentials> {
+  loading ??= readSavedCredentials().then((credentials) => (saved = credentials));
+  await loading;
+  return getCredentials();
+}
+
+/**
+ * Fields that are set in the extension preferences, so the setup form can't change them
+ */
+export function getPreferenceCredentials(): Partial<Credentials> {
+  const { token, steamid } = getPreferenceValues();
+  return { token: token?.trim() || undefined, steamid: steamid?.trim() || undefined };
+}
+
+export async function saveCredentials(credentials: Credentials) {
+  await LocalStorage.setItem(CREDENTIALS_STORAGE_KEY, JSON.stringify(credentials));
+  saved = credentials;
+  loading = Promise.resolve(credentials);
+}
+
+export async function clearSavedCredentials() {
+  await LocalStorage.removeItem(CREDENTIALS_STORAGE_KEY);
+  saved = {};
+  loading = Promise.resolve(saved);
+}
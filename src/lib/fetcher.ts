@@ -1,7 +1,14 @@
 import useSWR, { useSWRConfig } from "swr";
 import { fakeGameData, fakeGameDataSimpleMany, fakeGames, isFakeData } from "./fake";
-import { GameData, GameDataResponse, GameDataSimple, GameDataSimpleResponse, GameSimple } from "../types";
-import { getPreferenceValues, LocalStorage, openCommandPreferences, showToast, Toast } from "@raycast/api";
+import { FriendSummary, GameData, GameDataResponse, GameSimple, OwnedGame, PlayerSummary } from "../types";
+import { isAuthCacheKey } from "./auth";
+import { loadCredentials } from "./credentials";
+import { getSteamApi, isAccessDenied, SteamApiError, unwrap } from "./steam-api";
+import { fetchLocalAppDetails, fetchLocalGames, LocalAppDetails } from "./local-games";
+import { getMySteamId, resolveSteamId } from "./steam-id";
+import { useAuthState } from "./hooks";
+import { AchievementProgress, fetchAchievementProgress, fetchGameAchievements, GameAchievements } from "./achievements";
+import { mapWithConcurrency } from "./util";
 
 async function fetchGames(url: string) {
   const response = await fetch(url);
@@ -25,33 +32,34 @@ async function fetchGameData({ appid, url }: { appid: number; url: string }) {
   return gameData?.[appid]?.data;
 }
 
-async function fetcherWithAuth(url: string) {
-  const { token, steamid } = getPreferenceValues();
+type OwnedGamesType = "GetOwnedGames" | "GetRecentlyPlayedGames";
+
+async function fetchOwnedGames([, type]: [string, OwnedGamesType]) {
+  const { token, steamid } = await loadCredentials();
   if (!token && !steamid) return [];
-  const response = await fetch(url + `&key=${token.trim()}&steamid=${steamid.trim()}`);
-  if (response.status === 403) {
-    // If the request fails to auth, stash it to check if they later updated it
-    await LocalStorage.setItem("API_KEY_ERROR", token.trim() + steamid.trim());
-    showToast({
-      title: "403 Error",
-      message: "Please check your API key.",
-      style: Toast.Style.Failure,
-      primaryAction: {
-        title: "Open preferences",
-        onAction: () => {
-          openCommandPreferences();
-        },
-      },
-    });
-  }
-  if (!response.ok) {
-    return [];
+  const api = await getSteamApi();
+  const mySteamId = await getMySteamId();
+  const { response } =
+    type === "GetOwnedGames"
+      ? unwrap(await api.player.getOwnedGames(mySteamId))
+      : unwrap(await api.player.getRecentlyPlayedGames(mySteamId));
+  // Private game details come back as an empty response rather than an error, which would look like owning nothing
+  if (!Object.keys(response ?? {}).length) {
+    throw new SteamApiError("Your game details are private", "private-profile");
   }
-  await LocalStorage.removeItem("API_KEY_ERROR");
-  const gamesResponse = (await response.json()) as GameDataSimpleResponse;
-  return gamesResponse?.response?.games ?? [];
+  return response?.games ?? [];
 }
 
+// A key or ID that stops working shows up in data requests first, so have the auth state catch up
+const useRevalidateAuthOnError = () => {
+  const { mutate } = useSWRConfig();
+  return (error: unknown) => {
+    // A 401/403 is left alone, it's usually private data rather than a bad key
+    const kind = error instanceof SteamApiError ? error.kind : undefined;
+    if (kind === "invalid-steam-id" || kind === "not-found" || kind === "private-profile") mutate(isAuthCacheKey);
+  };
+};
+
 export const useGamesSearch = ({ term = "", cacheKey = 0, execute = true }) => {
   const { data, error, isValidating } = useSWR<GameSimple[]>(
     execute ? `https://steam-search.vercel.app/api/games?cacheKey=${cacheKey}&search=${term}` : null,
@@ -65,6 +73,10 @@ export const useGamesSearch = ({ term = "", cacheKey = 0, execute = true }) => {
   };
 };
 
+// How swr serializes useGameData's key, for reading entries straight from the cache
+export const gameDataCacheKey = (appid: number) =>
+  `#url:"https://store.steampowered.com/api/appdetails?appids=${appid}",appid:${appid},`;
+
 export const useGameData = <T>({ appid = 0, execute = true }) => {
   const { cache } = useSWRConfig();
   const key = {
@@ -84,7 +96,7 @@ export const useGameData = <T>({ appid = 0, execute = true }) => {
 
   // Slightly hacky way to grab something from swr cache
   // If swr changes their serialization implimentation, this will break (gracefully)
-  const cacheKey = `#url:"${key.url}",appid:${appid},`;
+  const cacheKey = gameDataCacheKey(appid);
   if (!data && cache.get(cacheKey) && !error) {
     return { data: cache.get(cacheKey) as T };
   }
@@ -99,11 +111,15 @@ export const useGameData = <T>({ appid = 0, execute = true }) => {
 
 export const useRecentlyPlayedGames = () => useGetOwnedGames("GetRecentlyPlayedGames");
 export const useMyGames = () => useGetOwnedGames("GetOwnedGames");
-const useGetOwnedGames = (type: string) => {
-  const { data, error, isValidating } = useSWR<GameDataSimple[]>(
-    `https://api.steampowered.com/IPlayerService/${type}/v1/?format=json&include_appinfo=1`,
-    isFakeData ? () => fakeGameDataSimpleMany(30) : fetcherWithAuth,
+const useGetOwnedGames = (type: OwnedGamesType) => {
+  const onError = useRevalidateAuthOnError();
+  // The API can't see a private library, asking anyway would only re-check the account on every error
+  const { state: auth } = useAuthState();
+  const { data, error, isValidating } = useSWR<OwnedGame[]>(
+    auth.status === "private-profile" ? null : ["steam-api", type],
+    isFakeData ? () => fakeGameDataSimpleMany(30) : fetchOwnedGames,
     {
+      onError,
       revalidateOnFocus: false,
       revalidateOnReconnect: false,
       refreshInterval: 600_000, // 10 minutes
@@ -113,8 +129,265 @@ const useGetOwnedGames = (type: string) => {
 
   return {
     data: data,
+    isLoading: !data && !error && auth.status !== "private-profile",
+    isValidating,
+    isError: error,
+  };
+};
+
+export const useAchievements = ({ appid = 0, execute = true }) => {
+  // Games without achievements resolve to undefined, so loading comes from swr rather than !data
+  const { data, error, isValidating, isLoading } = useSWR<GameAchievements | undefined>(
+    execute && appid ? ["steam-api", "achievements", appid] : null,
+    () => fetchGameAchievements(appid),
+    {
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      dedupingInterval: 600_000, // 10 minutes
+    },
+  );
+  return {
+    data,
+    isLoading,
+    isValidating,
+    isError: error,
+  };
+};
+
+// Partial results are retried rather than kept for the full hour
+const PARTIAL_PROGRESS_RETRY = 60_000;
+
+export const useAchievementProgress = () => {
+  const { data: myGames, isLoading: myGamesLoading, isError: myGamesError } = useMyGames();
+  const { data, error, isValidating, isLoading } = useSWR<AchievementProgress>(
+    // v2 counts failures, older cache entries are plain arrays
+    myGames ? ["steam-api", "achievement-progress-v2", myGames.length] : null,
+    (): Promise<AchievementProgress> => fetchAchievementProgress(myGames ?? [], data),
+    {
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      dedupingInterval: 3_600_000, // 1 hour
+      refreshInterval: (latest) => (latest?.failed ? PARTIAL_PROGRESS_RETRY : 0),
+    },
+  );
+  return {
+    data: data?.games,
+    failed: data?.failed ?? 0,
+    isLoading: myGamesLoading || isLoading,
+    isValidating,
+    isError: error ?? myGamesError,
+  };
+};
+
+// GetPlayerSummaries takes at most 100 ids per call
+const SUMMARIES_BATCH_SIZE = 100;
+
+export async function fetchPlayerSummaries(steamids: string[]): Promise<PlayerSummary[]> {
+  const api = await getSteamApi();
+  const batches = Array.from({ length: Math.ceil(steamids.length / SUMMARIES_BATCH_SIZE) }, (_, i) =>
+    steamids.slice(i * SUMMARIES_BATCH_SIZE, (i + 1) * SUMMARIES_BATCH_SIZE),
+  );
+  const results = await Promise.all(batches.map((batch) => api.user.getPlayerSummaries(batch)));
+  return results.flatMap((result) => unwrap(result).response.players);
+}
+
+async function fetchFriends(): Promise<FriendSummary[]> {
+  const result = await (await getSteamApi()).user.getFriendList(await getMySteamId());
+  if (!result.ok && isAccessDenied(result.error)) {
+    throw new SteamApiError("Your friends list is private", result.error.kind, result.error.status);
+  }
+  const { friendslist } = unwrap(result);
+  const friends = friendslist?.friends ?? [];
+  const summaries = await fetchPlayerSummaries(friends.map((friend) => friend.steamid));
+  const friendSince = new Map(friends.map((friend) => [friend.steamid, friend.friend_since]));
+  return summaries.map((summary) => ({ ...summary, friend_since: friendSince.get(summary.steamid) }));
+}
+
+export const useFriends = ({ execute = true } = {}) => {
+  const onError = useRevalidateAuthOnError();
+  const { data, error, isValidating, mutate } = useSWR<FriendSummary[]>(
+    execute ? ["steam-api", "friends"] : null,
+    fetchFriends,
+    {
+      onError,
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      refreshInterval: 60_000, // 1 minute, online status changes often
+    },
+  );
+  return {
+    data,
+    isLoading: !data && !error && execute,
+    isValidating,
+    isError: error,
+    revalidate: mutate,
+  };
+};
+
+/**
+ * Someone else's owned games. Undefined when their game details aren't public.
+ */
+export const useOwnedGames = (steamid?: string) => {
+  const { data, error, isValidating, isLoading } = useSWR<OwnedGame[] | undefined>(
+    steamid ? ["steam-api", "owned-games", steamid] : null,
+    async () => {
+      const result = await (await getSteamApi()).player.getOwnedGames(steamid ?? "", { includeFreeGames: true });
+      // Some private profiles answer with a 401/403 rather than an empty response
+      return !result.ok && isAccessDenied(result.error) ? undefined : unwrap(result).response.games;
+    },
+    {
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      dedupingInterval: 600_000, // 10 minutes
+    },
+  );
+  return {
+    data,
+    isLoading,
+    isValidating,
+    isError: error,
+  };
+};
+
+export type PlayerLibrary = {
+  player: PlayerSummary;
+  // Undefined when the profile's game details aren't public
+  games?: OwnedGame[];
+};
+
+async function fetchLibraries(steamids: string[]): Promise<PlayerLibrary[]> {
+  const api = await getSteamApi();
+  const [players, libraries] = await Promise.all([
+    fetchPlayerSummaries(steamids),
+    Promise.all(
+      steamids.map(async (steamid) => {
+        const result = await api.player.getOwnedGames(steamid, { includeFreeGames: true });
+        return !result.ok && isAccessDenied(result.error) ? undefined : unwrap(result).response.games;
+      }),
+    ),
+  ]);
+  return steamids.map((steamid, i) => ({
+    // Fall back to the id for accounts that no longer exist
+    player: players.find((p) => p.steamid === steamid) ?? ({ steamid, personaname: steamid } as PlayerSummary),
+    games: libraries[i],
+  }));
+}
+
+export const useLibraries = (steamids: string[]) => {
+  const { data, error, isValidating } = useSWR<PlayerLibrary[]>(
+    steamids.length ? ["steam-api", "libraries", ...steamids] : null,
+    () => fetchLibraries(steamids),
+    {
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      dedupingInterval: 600_000, // 10 minutes
+    },
+  );
+  return {
+    data,
     isLoading: !data && !error,
     isValidating,
     isError: error,
   };
 };
+
+// The store api is rate limited to roughly 200 requests per 5 minutes
+const CATEGORY_CONCURRENCY = 4;
+const CATEGORY_RETRY = 60_000;
+
+/**
+ * Store category ids (multiplayer, co-op...) for a set of games, keyed by appid.
+ * Games whose details couldn't be fetched are left out and retried, failed counts them.
+ */
+export const useGameCategories = ({ appids = [] as number[], execute = true }) => {
+  const { cache } = useSWRConfig();
+  const missing = (categories?: Record<number, number[]>) =>
+    categories ? appids.filter((appid) => !(appid in categories)).length : 0;
+  const { data, error, isValidating } = useSWR<Record<number, number[]>>(
+    execute && appids.length ? ["store-categories", appids.join(",")] : null,
+    async (): Promise<Record<number, number[]>> => {
+      let lastError: unknown;
+      const entries = await mapWithConcurrency(appids, CATEGORY_CONCURRENCY, async (appid) => {
+        // Reuse full details already fetched for other views
+        const cached = (cache.get(gameDataCacheKey(appid))?.data as GameData | undefined)?.categories;
+        if (cached) return [[appid, cached.map((category) => category.id)] as const];
+        try {
+          const gameData = await fetchGameData({
+            appid,
+            url: `https://store.steampowered.com/api/appdetails?appids=${appid}&filters=categories`,
+          });
+          return [[appid, gameData?.categories?.map((category) => category.id) ?? []] as const];
+        } catch (error) {
+          // Unknown games are a real answer, anything else (usually the rate limit) is worth retrying
+          if ((error as { status?: number }).status === 404) return [[appid, []] as const];
+          lastError = error;
+          // Keep what an earlier run found rather than dropping the game
+          return data?.[appid] ? [[appid, data[appid]] as const] : [];
+        }
+      });
+      if (lastError && !entries.some((entry) => entry.length)) throw lastError;
+      return Object.fromEntries(entries.flat());
+    },
+    {
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      dedupingInterval: 3_600_000, // 1 hour
+      refreshInterval: (latest) => (missing(latest) ? CATEGORY_RETRY : 0),
+    },
+  );
+  return {
+    data,
+    failed: missing(data),
+    isLoading: !data && !error && execute && appids.length > 0,
+    isValidating,
+    isError: error,
+  };
+};
+
+export const useResolvedSteamId = ({ input = "", execute = true }) => {
+  const { data, error, isValidating, isLoading } = useSWR<string>(
+    execute && input.trim() ? ["steam-id", input.trim()] : null,
+    () => resolveSteamId(input),
+    {
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      shouldRetryOnError: false,
+    },
+  );
+  return {
+    data,
+    isLoading,
+    isValidating,
+    isError: error,
+  };
+};
+
+export const useLocalGames = ({ execute = true } = {}) => {
+  const { data, error, isValidating } = useSWR<OwnedGame[]>(execute ? ["local-games"] : null, fetchLocalGames, {
+    revalidateOnFocus: false,
+    revalidateOnReconnect: false,
+  });
+  return {
+    data,
+    isLoading: !data && !error && execute,
+    isValidating,
+    isError: error,
+  };
+};
+
+/**
+ * Installed state, type and categories for owned games, keyed by appid
+ */
+export const useLocalAppDetails = ({ appids = [] as number[], execute = true }) => {
+  const { data, error, isValidating } = useSWR<Record<number, LocalAppDetails>>(
+    execute && appids.length ? ["local-app-details", appids.join(",")] : null,
+    () => fetchLocalAppDetails(appids),
+    { revalidateOnFocus: false, revalidateOnReconnect: false },
+  );
+  return {
+    data,
+    isLoading: !data && !error && execute && appids.length > 0,
+    isValidating,
+    isError: error,
+  };
+};
@@ -1,18 +1,119 @@
-import { getPreferenceValues, LocalStorage } from "@raycast/api";
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import useSWR from "swr";
+import { AuthState, authCacheKey, missingCredentials, validateCredentials } from "./auth";
+import { Credentials, getCredentials, loadCredentials } from "./credentials";
+import { getDefaultAccount, getLocalAccounts } from "../utils/steam-accounts";
+import { getSteamCollections, SteamCollection } from "../utils/steam-collections";
+import { getSteamPath } from "../utils/steam-path";
+import { getSteamClientState, SteamClientState } from "../utils/steam-process";
+import { watchSteamRegistry } from "../utils/steam-watcher";
 
-export const useIsLoggedIn = () => {
-  const { token, steamid } = getPreferenceValues();
-  const [loggedIn, setLoggedIn] = useState(token?.length > 0 && steamid?.length > 0);
+/**
+ * The credentials in use, undefined until the saved ones have been read
+ */
+export const useCredentials = () => {
+  const [credentials, setCredentials] = useState<Credentials>();
   useEffect(() => {
-    // If nothing is set, we don't have to check for an api key error
-    if (token?.length > 0 && steamid?.length > 0) {
-      LocalStorage.getItem("API_KEY_ERROR").then((value) => {
-        // Check if the current key/token matches the previously failed one
-        // And if it does NOT, then give it a chance to auth again
-        setLoggedIn(value !== token.trim() + steamid.trim());
-      });
+    loadCredentials().then(setCredentials);
+  }, []);
+  return [credentials, setCredentials] as const;
+};
+
+export const useAuthState = () => {
+  // Re-read after the setup form saves, the swr key changes with the credentials
+  const [credentials, setCredentials] = useCredentials();
+  const missing = credentials ? missingCredentials(credentials) : [];
+  const { data, mutate } = useSWR<AuthState>(
+    credentials && !missing.length ? authCacheKey(credentials) : null,
+    // A blip in the network or the rate limit shouldn't lock out an account that was fine before
+    async (): Promise<AuthState> => {
+      const next = await validateCredentials(credentials ?? (await loadCredentials()));
+      const transient = next.status === "unreachable" || next.status === "rate-limited";
+      return transient && data?.status === "valid" ? data : next;
+    },
+    { revalidateOnFocus: false, revalidateOnReconnect: false, dedupingInterval: 600_000 },
+  );
+
+  const revalidate = useCallback(() => {
+    const next = getCredentials();
+    setCredentials(next);
+    // Same credentials means the key stays the same, so ask swr directly
+    return next.token === credentials?.token && next.steamid === credentials?.steamid ? mutate() : undefined;
+  }, [credentials, mutate]);
+
+  const state: AuthState =
+    credentials && missing.length ? { status: "unconfigured", missing } : (data ?? { status: "validating" });
+
+  return { state, isLoggedIn: state.status === "valid", revalidate };
+};
+
+export const useSteamCollections = (accountId?: string) => {
+  const { data, error, isValidating } = useSWR<SteamCollection[]>(
+    ["steam-collections", accountId ?? "default"],
+    async () => {
+      const steamPath = await getSteamPath();
+      if (!steamPath) return [];
+      const id = accountId ?? (await getDefaultAccount(await getLocalAccounts(steamPath)))?.accountId;
+      if (!id) return [];
+      // Dynamic collections we can't evaluate offline would just look empty, so leave them out
+      return (await getSteamCollections(steamPath, id)).filter((collection) => collection.resolvable);
+    },
+    { revalidateOnFocus: false, revalidateOnReconnect: false },
+  );
+  return {
+    data,
+    isLoading: !data && !error,
+    isValidating,
+    isError: error,
+  };
+};
+
+// registry.vdf changes show up straight away, the poll is for Windows and crashed clients
+const CLIENT_STATE_INTERVAL = 30_000;
+
+// Polled rather than cached with swr, a stale "running" state is worse than none
+export const useSteamClientState = () => {
+  const [state, setState] = useState<SteamClientState>();
+  const [error, setError] = useState<unknown>();
+  const failing = useRef(false);
+
+  const revalidate = useCallback(async () => {
+    try {
+      const steamPath = await getSteamPath();
+      if (!steamPath) return;
+      setState(await getSteamClientState(steamPath));
+      setError(undefined);
+      failing.current = false;
+    } catch (e) {
+      // Log once rather than on every poll
+      if (!failing.current) console.error("Error checking Steam client state:", e);
+      failing.current = true;
+      setError(e);
     }
-  });
-  return loggedIn;
+  }, []);
+
+  useEffect(() => {
+    let stopWatching: (() => void) | undefined;
+    let unmounted = false;
+    revalidate();
+    const timer = setInterval(revalidate, CLIENT_STATE_INTERVAL);
+    getSteamPath()
+      .then((steamPath) => {
+        if (steamPath && !unmounted) stopWatching = watchSteamRegistry(steamPath, revalidate);
+      })
+      // revalidate reports the same error, the poll alone will do
+      .catch(() => undefined);
+    return () => {
+      unmounted = true;
+      clearInterval(timer);
+      stopWatching?.();
+    };
+  }, [revalidate]);
+
+  return {
+    data: state,
+    isLoading: !state && !error,
+    isError: error,
+    revalidate,
+  };
 };
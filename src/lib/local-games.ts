@@ -0,0 +1,81 @@
+import { OwnedGame } from "../types";
+import { getAppInfo } from "../utils/steam-appinfo";
+import { CollectionApp } from "../utils/steam-collections";
+import { getLocalAppStats } from "../utils/steam-localconfig";
+import { getInstalledSteamGames } from "../utils/steam-library";
+import { getSteamPath } from "../utils/steam-path";
+
+/**
+ * Games installed or played on this computer, shaped like GetOwnedGames results.
+ * Stands in for the Web API when the account's game details are private.
+ */
+export async function fetchLocalGames(): Promise<OwnedGame[]> {
+  const steamPath = await getSteamPath();
+  if (!steamPath) return [];
+
+  const library = await getInstalledSteamGames();
+  const stats = library.accountId ? await getLocalAppStats(steamPath, library.accountId) : new Map();
+  const installed = library.games.filter((game) => !game.appInfo?.type || game.appInfo.type === "game");
+
+  // Uninstalled games only show up in localconfig.vdf, names and icons come from Steam's app cache
+  const installedIds = new Set(library.games.map((game) => game.appid));
+  const playedIds = [...stats.keys()].filter((appid) => !installedIds.has(appid) && stats.get(appid)?.playtime);
+  const appInfo = await getAppInfo(steamPath, playedIds);
+
+  return [
+    ...installed.map(
+      (game): OwnedGame => ({
+        appid: game.appid,
+        name: game.name,
+        img_icon_url: game.appInfo?.icon ?? "",
+        playtime_forever: game.playtime ?? 0,
+        playtime_2weeks: stats.get(game.appid)?.playtime2wks,
+        rtime_last_played: game.lastPlayed,
+      }),
+    ),
+    ...playedIds.flatMap((appid): OwnedGame[] => {
+      const info = appInfo.get(appid);
+      // Tools, Proton and redistributables have playtime too
+      if (info?.type !== "game" || !info.name) return [];
+      const played = stats.get(appid);
+      return [
+        {
+          appid,
+          name: info.name,
+          img_icon_url: info.icon ?? "",
+          playtime_forever: played?.playtime ?? 0,
+          playtime_2weeks: played?.playtime2wks,
+          rtime_last_played: played?.lastPlayed,
+        },
+      ];
+    }),
+  ];
+}
+
+export type LocalAppDetails = Pick<CollectionApp, "installed" | "type" | "categories">;
+
+/**
+ * What this computer knows about some apps, for collection rules the Web API can't answer:
+ * whether they're installed, plus type and store categories from Steam's app cache
+ */
+export async function fetchLocalAppDetails(appids: number[]): Promise<Record<number, LocalAppDetails>> {
+  const steamPath = await getSteamPath();
+  if (!steamPath) return {};
+
+  const library = await getInstalledSteamGames();
+  const installed = new Set(library.games.filter((game) => game.status !== "uninstalled").map((game) => game.appid));
+  const appInfo = await getAppInfo(steamPath, appids);
+  return Object.fromEntries(
+    appids.map((appid): [number, LocalAppDetails] => {
+      const info = appInfo.get(appid);
+      return [
+        appid,
+        {
+          installed: installed.has(appid),
+          type: info?.type,
+          categories: info?.categories.map((category) => category.id),
+        },
+      ];
+    }),
+  );
+}
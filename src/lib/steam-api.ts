@@ -0,0 +1,176 @@
+import { getPreferenceValues } from "@raycast/api";
+import { loadCredentials } from "./credentials";
+import {
+  AppListResponse,
+  FriendListResponse,
+  GameSchemaResponse,
+  GlobalAchievementPercentagesResponse,
+  NewsForAppResponse,
+  OwnedGamesResponse,
+  PlayerAchievementsResponse,
+  PlayerSummariesResponse,
+  RecentlyPlayedGamesResponse,
+  ResolveVanityUrlResponse,
+  SteamLevelResponse,
+} from "../types";
+
+export const DEFAULT_API_BASE_URL = "https://api.steampowered.com";
+
+export type SteamApiErrorKind =
+  | "missing-credentials"
+  | "invalid-steam-id"
+  | "private-profile"
+  | "unauthorized"
+  | "forbidden"
+  | "not-found"
+  | "rate-limited"
+  | "server"
+  | "network"
+  | "invalid-response";
+
+export class SteamApiError extends Error {
+  constructor(
+    message: string,
+    public kind: SteamApiErrorKind,
+    public status?: number,
+  ) {
+    super(message);
+    this.name = "SteamApiError";
+  }
+}
+
+// Outside the sign-in check a 401/403 usually means the data is private rather than the key being wrong
+export const isAccessDenied = (error: unknown) =>
+  error instanceof SteamApiError && (error.kind === "unauthorized" || error.kind === "forbidden");
+
+export type SteamApiResult<T> = { ok: true; data: T } | { ok: false; error: SteamApiError };
+
+type Params = Record<string, string | number | boolean | undefined>;
+
+export interface SteamApiOptions {
+  key?: string;
+  baseUrl?: string;
+}
+
+const errorKindForStatus = (status: number): SteamApiErrorKind => {
+  if (status === 401) return "unauthorized";
+  if (status === 403) return "forbidden";
+  if (status === 404) return "not-found";
+  if (status === 429) return "rate-limited";
+  return "server";
+};
+
+/**
+ * Create a client for the Steam Web API. Every method resolves to a result instead
+ * of throwing, so callers decide what a failure means for them.
+ */
+export function createSteamApi({ key, baseUrl = DEFAULT_API_BASE_URL }: SteamApiOptions) {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  async function request<T>(path: string, params: Params = {}, { auth = true } = {}): Promise<SteamApiResult<T>> {
+    if (auth && !key) {
+      return { ok: false, error: new SteamApiError("Steam API key is not set", "missing-credentials") };
+    }
+    const url = new URL(`${root}/${path}/`);
+    url.searchParams.set("format", "json");
+    if (auth && key) url.searchParams.set("key", key);
+    for (const [name, value] of Object.entries(params)) {
+      if (value === undefined) continue;
+      url.searchParams.set(name, typeof value === "boolean" ? (value ? "1" : "0") : String(value));
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url);
+    } catch (error) {
+      return { ok: false, error: new SteamApiError(`Could not reach the Steam API: ${String(error)}`, "network") };
+    }
+    if (!response.ok) {
+      return {
+        ok: false,
+        error: new SteamApiError(
+          `${response.status} ${response.statusText}`,
+          errorKindForStatus(response.status),
+          response.status,
+        ),
+      };
+    }
+    try {
+      return { ok: true, data: (await response.json()) as T };
+    } catch {
+      return {
+        ok: false,
+        error: new SteamApiError("The Steam API returned invalid JSON", "invalid-response", response.status),
+      };
+    }
+  }
+
+  return {
+    player: {
+      getOwnedGames: (steamid: string, { includeAppInfo = true, includeFreeGames = false } = {}) =>
+        request<OwnedGamesResponse>("IPlayerService/GetOwnedGames/v1", {
+          steamid,
+          include_appinfo: includeAppInfo,
+          include_played_free_games: includeFreeGames,
+        }),
+      getRecentlyPlayedGames: (steamid: string, count?: number) =>
+        request<RecentlyPlayedGamesResponse>("IPlayerService/GetRecentlyPlayedGames/v1", { steamid, count }),
+      getSteamLevel: (steamid: string) => request<SteamLevelResponse>("IPlayerService/GetSteamLevel/v1", { steamid }),
+    },
+    user: {
+      // Up to 100 ids per call
+      getPlayerSummaries: (steamids: string[]) =>
+        request<PlayerSummariesResponse>("ISteamUser/GetPlayerSummaries/v2", { steamids: steamids.join(",") }),
+      getFriendList: (steamid: string) =>
+        request<FriendListResponse>("ISteamUser/GetFriendList/v1", { steamid, relationship: "friend" }),
+      resolveVanityUrl: (vanityurl: string) =>
+        request<ResolveVanityUrlResponse>("ISteamUser/ResolveVanityURL/v1", { vanityurl }),
+    },
+    userStats: {
+      getPlayerAchievements: (steamid: string, appid: number, language = "english") =>
+        request<PlayerAchievementsResponse>("ISteamUserStats/GetPlayerAchievements/v1", {
+          steamid,
+          appid,
+          l: language,
+        }),
+      getSchemaForGame: (appid: number, language = "english") =>
+        request<GameSchemaResponse>("ISteamUserStats/GetSchemaForGame/v2", { appid, l: language }),
+      getGlobalAchievementPercentages: (appid: number) =>
+        request<GlobalAchievementPercentagesResponse>(
+          "ISteamUserStats/GetGlobalAchievementPercentagesForApp/v2",
+          { gameid: appid },
+          { auth: false },
+        ),
+    },
+    apps: {
+      getAppList: () => request<AppListResponse>("ISteamApps/GetAppList/v2", {}, { auth: false }),
+    },
+    news: {
+      getNewsForApp: (appid: number, { count = 10, maxLength = 300 } = {}) =>
+        request<NewsForAppResponse>(
+          "ISteamNews/GetNewsForApp/v2",
+          { appid, count, maxlength: maxLength },
+          { auth: false },
+        ),
+    },
+  };
+}
+
+export type SteamApi = ReturnType<typeof createSteamApi>;
+
+/**
+ * A client configured from the extension preferences or the setup form
+ */
+export async function getSteamApi(): Promise<SteamApi> {
+  const { apiBaseUrl } = getPreferenceValues();
+  const { token } = await loadCredentials();
+  return createSteamApi({ key: token || undefined, baseUrl: apiBaseUrl?.trim() || undefined });
+}
+
+/**
+ * Unwrap a result for swr, which expects failures to be thrown
+ */
+export function unwrap<T>(result: SteamApiResult<T>): T {
+  if (!result.ok) throw result.error;
+  return result.data;
+}
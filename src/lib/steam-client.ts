@@ -0,0 +1,33 @@
+import { confirmAlert, Icon, open, showToast, Toast } from "@raycast/api";
+import { SteamClientState, waitForSteamToExit } from "../utils/steam-process";
+
+/**
+ * Ask to close Steam before changing a file it overwrites on exit. Resolves true once it's safe to write.
+ */
+export async function confirmSteamClosed(state?: SteamClientState): Promise<boolean> {
+  if (!state?.running) return true;
+  const confirmed = await confirmAlert({
+    title: "Close Steam?",
+    message: "Steam overwrites this setting when it exits, so it has to be closed first.",
+    icon: Icon.Power,
+    primaryAction: { title: "Close Steam" },
+  });
+  if (!confirmed) return false;
+
+  const toast = await showToast({ title: "Closing Steam", style: Toast.Style.Animated });
+  try {
+    await open("steam://exit");
+    if (await waitForSteamToExit()) {
+      await toast.hide();
+      return true;
+    }
+    toast.style = Toast.Style.Failure;
+    toast.title = "Steam Is Still Running";
+    toast.message = "Close it manually and try again.";
+  } catch (error) {
+    console.error("Error closing Steam:", error);
+    toast.style = Toast.Style.Failure;
+    toast.title = "Failed to Close Steam";
+  }
+  return false;
+}
@@ -0,0 +1,63 @@
+import { environment } from "@raycast/api";
+import { readFile, writeFile } from "fs/promises";
+import { resolve } from "path";
+import { accountIdToSteamId64, parseSteamId } from "../utils/steam-id";
+import { loadCredentials } from "./credentials";
+import { getSteamApi, SteamApi, SteamApiError, unwrap } from "./steam-api";
+import { isErrnoCode } from "./util";
+
+const VANITY_CACHE_FILE = "vanity-cache.json";
+// Custom URLs can be dropped and claimed by someone else, so look them up again now and then
+const VANITY_CACHE_TTL = 7 * 24 * 60 * 60 * 1000;
+
+// Vanity name (lowercased) to SteamID64. Older versions stored the id alone, those count as expired.
+type VanityCache = Record<string, { steamid: string; resolvedAt: number } | string>;
+
+async function loadVanityCache(): Promise<VanityCache> {
+  try {
+    return JSON.parse(await readFile(resolve(environment.supportPath, VANITY_CACHE_FILE), { encoding: "utf-8" }));
+  } catch (e) {
+    if (!isErrnoCode(e, "ENOENT")) {
+      console.error("Failed reading vanity cache", e);
+    }
+    return {};
+  }
+}
+
+async function saveVanityCache(cache: VanityCache) {
+  try {
+    await writeFile(resolve(environment.supportPath, VANITY_CACHE_FILE), JSON.stringify(cache), { encoding: "utf-8" });
+  } catch (e) {
+    console.error("Failed persisting vanity cache", e);
+  }
+}
+
+/**
+ * Turn any Steam ID format, profile URL or vanity name into a SteamID64
+ */
+export async function resolveSteamId(input: string, api?: SteamApi): Promise<string> {
+  const parsed = parseSteamId(input);
+  if (!parsed) {
+    throw new SteamApiError(`"${input.trim()}" is not a Steam ID or profile URL`, "invalid-steam-id");
+  }
+  if (parsed.kind === "id") return accountIdToSteamId64(parsed.accountId);
+
+  const key = parsed.vanity.toLowerCase();
+  const cache = await loadVanityCache();
+  const cached = cache[key];
+  if (typeof cached === "object" && Date.now() - cached.resolvedAt < VANITY_CACHE_TTL) return cached.steamid;
+
+  const { response } = unwrap(await (api ?? (await getSteamApi())).user.resolveVanityUrl(parsed.vanity));
+  if (response.success !== 1 || !response.steamid) {
+    throw new SteamApiError(`No Steam profile found for "${parsed.vanity}"`, "invalid-steam-id");
+  }
+  await saveVanityCache({ ...cache, [key]: { steamid: response.steamid, resolvedAt: Date.now() } });
+  return response.steamid;
+}
+
+/**
+ * The SteamID64 for the configured account, whichever format it was entered in
+ */
+export async function getMySteamId(): Promise<string> {
+  return resolveSteamId((await loadCredentials()).steamid);
+}
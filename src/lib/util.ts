@@ -34,3 +34,20 @@ export const randomFromArray = <T>(array: T[] | undefined) => {
   if (!array) return undefined;
   return array[Math.floor(Math.random() * array.length)] as T;
 };
+
+// Like Promise.all over array.map, but with at most `limit` calls in flight
+export const mapWithConcurrency = async <T, R>(array: T[], limit: number, fn: (item: T) => Promise<R>) => {
+  const results: R[] = new Array(array.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < array.length) {
+      const index = next++;
+      results[index] = await fn(array[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, array.length) }, worker));
+  return results;
+};
+
+// Check a Node fs/process error's code, e.g. ENOENT for a file that doesn't exist yet
+export const isErrnoCode = (error: unknown, code: string) => (error as NodeJS.ErrnoException)?.code === code;
@@ -1,27 +1,132 @@
-import { useState, useEffect } from "react";
-import { ActionPanel, Action, List, Icon, showToast, Toast, open } from "@raycast/api";
-import { getInstalledSteamGames, SteamGame, formatFileSize, formatLastUpdated } from "./utils/steam-library";
+import { useState, useEffect, useMemo } from "react";
+import { ActionPanel, Action, List, Icon, showToast, Toast, open, Color, LocalStorage } from "@raycast/api";
+import {
+  getInstalledSteamGames,
+  SteamGame,
+  formatFileSize,
+  formatLastUpdated,
+  mergeLocalAppStats,
+} from "./utils/steam-library";
+import { humanTime } from "./lib/util";
+import { SteamShortcut } from "./utils/steam-shortcuts";
+import { LibraryActions, SteamClientActions } from "./components/Actions";
+import { confirmSteamClosed } from "./lib/steam-client";
+import { DiskUsage } from "./components/DiskUsage";
+import { getDownloadPercent, STATUS_LABELS, SteamGameStatus } from "./utils/steam-app-state";
+import { readManifestChanges, watchSteamLibraries } from "./utils/steam-watcher";
+import { getCachedSteamLibrary } from "./utils/library-cache";
+import { accountDisplayName, SteamAccount } from "./utils/steam-accounts";
+import { CollectionApp, isInCollection } from "./utils/steam-collections";
+import { useSteamClientState, useSteamCollections } from "./lib/hooks";
+import { COMPAT_TOOL_FILTER_PREFIX, CollectionDropdown } from "./components/CollectionDropdown";
+import { CompatTool, setCompatTool } from "./utils/steam-compat";
+import { getSteamPath } from "./utils/steam-path";
+
+const ACCOUNT_STORAGE_KEY = "library-account";
+
+const SORT_STORAGE_KEY = "library-sort";
+
+type LibrarySort = "lastPlayed" | "lastUpdated" | "name" | "size";
+
+const SORT_LABELS: Record<LibrarySort, string> = {
+  lastPlayed: "Last Played",
+  lastUpdated: "Last Updated",
+  name: "Name",
+  size: "Size on Disk",
+};
+
+const DOWNLOADING_STATUSES: SteamGameStatus[] = ["downloading", "updating", "paused"];
+const NEEDS_UPDATE_STATUSES: SteamGameStatus[] = ["updateRequired", "filesMissing"];
+
+const STATUS_COLORS: Record<SteamGameStatus, Color> = {
+  installed: Color.Green,
+  updateRequired: Color.Orange,
+  updating: Color.Blue,
+  downloading: Color.Blue,
+  paused: Color.Yellow,
+  filesMissing: Color.Red,
+  uninstalling: Color.Red,
+  uninstalled: Color.SecondaryText,
+};
 
 export default function SteamLibrary() {
   const [games, setGames] = useState<SteamGame[]>([]);
+  const [shortcuts, setShortcuts] = useState<SteamShortcut[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchText, setSearchText] = useState("");
-  const [totalSize, setTotalSize] = useState(0);
-  const [gameCount, setGameCount] = useState(0);
+  const [sortBy, setSortBy] = useState<LibrarySort>("lastPlayed");
+  const [collectionId, setCollectionId] = useState("");
+  const [libraryPaths, setLibraryPaths] = useState<string[]>([]);
+  const [accounts, setAccounts] = useState<SteamAccount[]>([]);
+  const [accountId, setAccountId] = useState<string>();
+  const [compatTools, setCompatTools] = useState<CompatTool[]>([]);
+
+  const totalSize = useMemo(() => games.reduce((sum, game) => sum + game.sizeOnDisk, 0), [games]);
+  const gameCount = games.length;
+
+  const { data: collections } = useSteamCollections(accountId);
+  const { data: clientState, revalidate: revalidateClientState } = useSteamClientState();
 
   useEffect(() => {
-    loadLibrary();
+    LocalStorage.getItem<string>(SORT_STORAGE_KEY).then((storedSort) => {
+      if (storedSort && storedSort in SORT_LABELS) setSortBy(storedSort as LibrarySort);
+    });
+    LocalStorage.getItem<string>(ACCOUNT_STORAGE_KEY).then((storedAccountId) =>
+      loadLibrary({ accountId: storedAccountId }),
+    );
   }, []);
 
-  async function loadLibrary() {
+  useEffect(() => {
+    if (!libraryPaths.length) return;
+    return watchSteamLibraries(libraryPaths, async (changes) => {
+      const updates = await readManifestChanges(changes);
+      setGames((current) => {
+        const byAppId = new Map(current.map((game) => [game.appid, game]));
+        for (const { appid, libraryPath, game } of updates) {
+          const existing = byAppId.get(appid);
+          if (game) {
+            // appinfo.vdf, localconfig.vdf and config.vdf are only read on a full scan, keep what we already had
+            const updated = { ...game, appInfo: existing?.appInfo, compatTool: existing?.compatTool };
+            // A game with neither was never played by this account, so there's nothing to carry over
+            mergeLocalAppStats(
+              updated,
+              existing?.playtime !== undefined || existing?.lastPlayed ? existing : undefined,
+            );
+            byAppId.set(appid, updated);
+          } else if (existing?.libraryPath === libraryPath) {
+            byAppId.delete(appid);
+          }
+        }
+        return Array.from(byAppId.values());
+      });
+    });
+  }, [libraryPaths]);
+
+  async function loadLibrary({ silent = false, accountId: selectedAccountId = accountId } = {}) {
     setIsLoading(true);
     try {
-      const libraryInfo = await getInstalledSteamGames();
+      // Show the last scan straight away, then revalidate in the background
+      const cached = games.length === 0 ? await getCachedSteamLibrary() : undefined;
+      if (cached) {
+        setGames(cached.games);
+        setShortcuts(cached.shortcuts);
+        setCompatTools(cached.compatTools);
+      }
+
+      const libraryInfo = await getInstalledSteamGames(selectedAccountId);
       setGames(libraryInfo.games);
-      setTotalSize(libraryInfo.totalSize);
-      setGameCount(libraryInfo.gameCount);
+      setShortcuts(libraryInfo.shortcuts);
+      setCompatTools(libraryInfo.compatTools);
+      setAccounts(libraryInfo.accounts);
+      setAccountId(libraryInfo.accountId);
+      setLibraryPaths((current) => {
+        const paths = libraryInfo.folders.map((folder) => folder.path);
+        // Only restart the watchers when the set of libraries actually changed
+        return current.join("\n") === paths.join("\n") ? current : paths;
+      });
       setIsLoading(false);
 
+      if (silent) return;
       if (libraryInfo.gameCount > 0) {
         showToast({
           style: Toast.Style.Success,
@@ -63,6 +168,24 @@ export default function SteamLibrary() {
     }
   }
 
+  async function launchShortcut(shortcut: SteamShortcut) {
+    try {
+      // Non-Steam games only launch through their 64-bit game id
+      await open(`steam://rungameid/${shortcut.gameId}`);
+      showToast({
+        style: Toast.Style.Success,
+        title: "Game Launched",
+        message: `Starting ${shortcut.name}`,
+      });
+    } catch {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Launch Failed",
+        message: "Could not launch the game. Make sure Steam is installed and running.",
+      });
+    }
+  }
+
   async function openStorePage(appId: number, gameName: string) {
     try {
       await open(`https://store.steampowered.com/app/${appId}/`);
@@ -80,64 +203,280 @@ export default function SteamLibrary() {
     }
   }
 
-  const filteredGames = games.filter((game) => game.name.toLowerCase().includes(searchText.toLowerCase()));
+  const compatToolFilter = collectionId.startsWith(COMPAT_TOOL_FILTER_PREFIX)
+    ? collectionId.slice(COMPAT_TOOL_FILTER_PREFIX.length)
+    : undefined;
+  const collection = collections?.find((c) => c.id === collectionId);
+  const matches = (app: CollectionApp & { name: string }) =>
+    app.name.toLowerCase().includes(searchText.toLowerCase()) && (!collection || isInCollection(collection, app));
+
+  const filteredGames = games.filter(
+    (game) =>
+      matches({
+        appid: game.appid,
+        name: game.name,
+        installed: game.status !== "uninstalled",
+        played: Boolean(game.playtime || game.lastPlayed),
+        type: game.appInfo?.type,
+        categories: game.appInfo?.categories.map((category) => category.id),
+      }) &&
+      (!compatToolFilter || game.compatTool === compatToolFilter),
+  );
+
+  // Shortcuts have no entry in CompatToolMapping we read, so a tool filter hides them
+  const filteredShortcuts = compatToolFilter ? [] : shortcuts.filter(matches);
+
+  // Only offer filters for tools some game is forced to, including ones that have since been removed
+  const usedCompatTools = useMemo(() => {
+    const used = new Set(games.map((game) => game.compatTool).filter((name): name is string => Boolean(name)));
+    const known = compatTools.filter((tool) => used.has(tool.name));
+    const missing = Array.from(used)
+      .filter((name) => !compatTools.some((tool) => tool.name === name))
+      .map((name): CompatTool => ({ name, displayName: name, source: "custom", path: "" }));
+    return [...known, ...missing];
+  }, [games, compatTools]);
+
+  const compatToolName = (name: string) => compatTools.find((tool) => tool.name === name)?.displayName ?? name;
 
   const sortedGames = filteredGames.sort((a, b) => {
-    // Sort by last updated, then by name
-    if (a.lastUpdated && b.lastUpdated) {
-      return b.lastUpdated - a.lastUpdated;
+    if (sortBy === "name") return a.name.localeCompare(b.name);
+    if (sortBy === "size") return b.sizeOnDisk - a.sizeOnDisk;
+    // Sort by the chosen timestamp, then by name
+    const key = sortBy === "lastPlayed" ? "lastPlayed" : "lastUpdated";
+    if (a[key] || b[key]) {
+      return (b[key] ?? 0) - (a[key] ?? 0);
     }
     return a.name.localeCompare(b.name);
   });
 
+  const downloadingGames = sortedGames.filter((game) => DOWNLOADING_STATUSES.includes(game.status));
+  const needsUpdateGames = sortedGames.filter((game) => NEEDS_UPDATE_STATUSES.includes(game.status));
+  const readyGames = sortedGames.filter(
+    (game) => !DOWNLOADING_STATUSES.includes(game.status) && !NEEDS_UPDATE_STATUSES.includes(game.status),
+  );
+
+  async function switchAccount(account: SteamAccount) {
+    await LocalStorage.setItem(ACCOUNT_STORAGE_KEY, account.accountId);
+    setAccountId(account.accountId);
+    await loadLibrary({ accountId: account.accountId, silent: true });
+  }
+
+  async function switchCompatTool(game: SteamGame, tool?: CompatTool) {
+    if (!(await confirmSteamClosed(clientState))) return;
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Updating Compatibility Tool" });
+    try {
+      const steamPath = await getSteamPath();
+      if (!steamPath) throw new Error("Steam installation not found");
+      await setCompatTool(steamPath, game.appid, tool?.name);
+      toast.style = Toast.Style.Success;
+      toast.title = "Compatibility Tool Updated";
+      toast.message = `${game.name} will use ${tool ? tool.displayName : "the Steam default"}`;
+      await loadLibrary({ silent: true });
+    } catch (error) {
+      console.error("Error setting compatibility tool:", error);
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to Update Compatibility Tool";
+      toast.message = error instanceof Error ? error.message : undefined;
+    }
+  }
+
+  const currentAccount = accounts.find((account) => account.accountId === accountId);
+
+  const commonActions = (
+    <>
+      {/* Fallback for filesystems where watching for manifest changes doesn't work */}
+      <Action
+        icon={Icon.ArrowClockwise}
+        title="Refresh Library"
+        shortcut={{ modifiers: ["cmd"], key: "r" }}
+        onAction={() => loadLibrary()}
+      />
+      <ActionPanel.Submenu
+        icon={Icon.ArrowUp}
+        title="Sort Library"
+        shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+      >
+        {(Object.keys(SORT_LABELS) as LibrarySort[]).map((sort) => (
+          <Action
+            key={sort}
+            icon={sort === sortBy ? Icon.CheckCircle : Icon.Circle}
+            title={SORT_LABELS[sort]}
+            onAction={() => {
+              setSortBy(sort);
+              LocalStorage.setItem(SORT_STORAGE_KEY, sort);
+            }}
+          />
+        ))}
+      </ActionPanel.Submenu>
+      {accounts.length > 1 && (
+        <ActionPanel.Submenu
+          icon={Icon.TwoPeople}
+          title="Switch Account"
+          shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+        >
+          {accounts.map((account) => (
+            <Action
+              key={account.accountId}
+              icon={account.accountId === accountId ? Icon.CheckCircle : Icon.Person}
+              title={accountDisplayName(account)}
+              onAction={() => switchAccount(account)}
+            />
+          ))}
+        </ActionPanel.Submenu>
+      )}
+    </>
+  );
+
+  const renderGame = (game: SteamGame) => {
+    const percent = getDownloadPercent(game.download);
+    const running = clientState?.runningAppId === game.appid;
+    return (
+      <List.Item
+        key={game.appid}
+        title={game.name}
+        subtitle={[
+          formatFileSize(game.sizeOnDisk),
+          game.lastPlayed ? `Played: ${formatLastUpdated(game.lastPlayed)}` : undefined,
+          game.lastUpdated ? `Updated: ${formatLastUpdated(game.lastUpdated)}` : undefined,
+        ]
+          .filter(Boolean)
+          .join(" • ")}
+        icon={{
+          source: `https://cdn.akamai.steamstatic.com/steam/apps/${game.appid}/capsule_184x69.jpg`,
+          fallback: Icon.Circle,
+        }}
+        accessories={[
+          running ? { tag: { value: "Running", color: Color.Green }, icon: Icon.Play } : {},
+          game.status !== "installed"
+            ? {
+                tag: {
+                  value:
+                    percent !== undefined ? `${STATUS_LABELS[game.status]} ${percent}%` : STATUS_LABELS[game.status],
+                  color: STATUS_COLORS[game.status],
+                },
+                tooltip: game.download?.bytesToDownload
+                  ? `${formatFileSize(game.download.bytesDownloaded)} of ${formatFileSize(game.download.bytesToDownload)} downloaded`
+                  : undefined,
+              }
+            : {},
+          game.playtime ? { text: humanTime(game.playtime), tooltip: "Total playtime", icon: Icon.Clock } : {},
+          game.compatTool
+            ? { tag: compatToolName(game.compatTool), tooltip: "Compatibility tool", icon: Icon.Layers }
+            : {},
+          {
+            text: `App ID: ${game.appid}`,
+            tooltip: "Steam App ID",
+            icon: Icon.Number00,
+          },
+        ]}
+        actions={
+          <ActionPanel>
+            {!running && (
+              <Action icon={Icon.Play} title="Launch Game" onAction={() => launchGame(game.appid, game.name)} />
+            )}
+            <Action icon={Icon.Globe} title="Open Store Page" onAction={() => openStorePage(game.appid, game.name)} />
+            <SteamClientActions state={clientState} appid={game.appid} onChange={revalidateClientState} />
+            <LibraryActions game={game} accountId={accountId} />
+            {compatTools.length > 0 && (
+              <ActionPanel.Submenu
+                icon={Icon.Layers}
+                title="Set Compatibility Tool"
+                shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+              >
+                <Action
+                  icon={game.compatTool ? Icon.Circle : Icon.CheckCircle}
+                  title="Steam Default"
+                  onAction={() => switchCompatTool(game)}
+                />
+                {compatTools.map((tool) => (
+                  <Action
+                    key={tool.name}
+                    icon={tool.name === game.compatTool ? Icon.CheckCircle : Icon.Circle}
+                    title={tool.displayName}
+                    onAction={() => switchCompatTool(game, tool)}
+                  />
+                ))}
+              </ActionPanel.Submenu>
+            )}
+            {commonActions}
+          </ActionPanel>
+        }
+      />
+    );
+  };
+
   return (
     <List
+      navigationTitle={currentAccount ? `Steam Library • ${accountDisplayName(currentAccount)}` : undefined}
       searchBarPlaceholder="Search your library..."
       onSearchTextChange={setSearchText}
       isLoading={isLoading}
       throttle
+      searchBarAccessory={
+        <CollectionDropdown collections={collections} compatTools={usedCompatTools} onChange={setCollectionId} />
+      }
     >
-      {sortedGames.length === 0 && !isLoading ? (
+      {sortedGames.length === 0 && filteredShortcuts.length === 0 && !isLoading ? (
         <List.EmptyView
           icon={Icon.Book}
           title="No games found"
           description={gameCount === 0 ? "No Steam games installed" : "Try searching for a different game name"}
+          actions={<ActionPanel>{commonActions}</ActionPanel>}
         />
       ) : (
         <>
           {gameCount > 0 && (
             <List.Section title={`Installed Games (${gameCount})`}>
-              <List.Item title="Total Library Size" subtitle={formatFileSize(totalSize)} icon={Icon.HardDrive} />
+              <List.Item
+                title="Total Library Size"
+                subtitle={formatFileSize(totalSize)}
+                icon={Icon.HardDrive}
+                actions={
+                  <ActionPanel>
+                    <Action.Push icon={Icon.HardDrive} title="View Disk Usage" target={<DiskUsage />} />
+                    {commonActions}
+                  </ActionPanel>
+                }
+              />
+            </List.Section>
+          )}
+          {downloadingGames.length > 0 && (
+            <List.Section title={`Downloading (${downloadingGames.length})`}>
+              {downloadingGames.map(renderGame)}
+            </List.Section>
+          )}
+          {needsUpdateGames.length > 0 && (
+            <List.Section title={`Needs Update (${needsUpdateGames.length})`}>
+              {needsUpdateGames.map(renderGame)}
+            </List.Section>
+          )}
+          {readyGames.map(renderGame)}
+          {filteredShortcuts.length > 0 && (
+            <List.Section title={`Non-Steam Games (${filteredShortcuts.length})`}>
+              {filteredShortcuts.map((shortcut) => (
+                <List.Item
+                  key={shortcut.gameId}
+                  title={shortcut.name}
+                  subtitle={shortcut.exe}
+                  icon={shortcut.icon ? { source: shortcut.icon, fallback: Icon.AppWindow } : Icon.AppWindow}
+                  accessories={[
+                    ...shortcut.tags.map((tag) => ({ tag })),
+                    shortcut.lastPlayed
+                      ? { text: `Played: ${formatLastUpdated(shortcut.lastPlayed)}`, tooltip: "Last played" }
+                      : {},
+                  ]}
+                  actions={
+                    <ActionPanel>
+                      <Action icon={Icon.Play} title="Launch Game" onAction={() => launchShortcut(shortcut)} />
+                      <Action.ShowInFinder path={shortcut.exe} />
+                      <Action.CopyToClipboard title="Copy Game ID" content={shortcut.gameId} />
+                      {commonActions}
+                    </ActionPanel>
+                  }
+                />
+              ))}
             </List.Section>
           )}
-          {sortedGames.map((game) => (
-            <List.Item
-              key={game.appid}
-              title={game.name}
-              subtitle={`${formatFileSize(game.sizeOnDisk)} • ${game.lastUpdated ? `Updated: ${formatLastUpdated(game.lastUpdated)}` : "Installation info"}`}
-              icon={{
-                source: `https://cdn.akamai.steamstatic.com/steam/apps/${game.appid}/capsule_184x69.jpg`,
-                fallback: Icon.Circle,
-              }}
-              accessories={[
-                {
-                  text: `App ID: ${game.appid}`,
-                  tooltip: "Steam App ID",
-                  icon: Icon.Number00,
-                },
-              ]}
-              actions={
-                <ActionPanel>
-                  <Action icon={Icon.Play} title="Launch Game" onAction={() => launchGame(game.appid, game.name)} />
-                  <Action
-                    icon={Icon.Globe}
-                    title="Open Store Page"
-                    onAction={() => openStorePage(game.appid, game.name)}
-                  />
-                </ActionPanel>
-              }
-            />
-          ))}
         </>
       )}
     </List>
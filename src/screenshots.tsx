@@ -0,0 +1,124 @@
+import { Action, ActionPanel, Grid, Icon, showToast, Toast } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { SWRConfig, useSWRConfig } from "swr";
+import { cacheProvider } from "./lib/cache";
+import { isFakeData } from "./lib/fake";
+import { gameDataCacheKey } from "./lib/fetcher";
+import { GameData } from "./types";
+import { GameScreenshots, ScreenshotActions } from "./components/GameScreenshots";
+import { getCachedSteamLibrary } from "./utils/library-cache";
+import { accountDisplayName, getDefaultAccount, getLocalAccounts, SteamAccount } from "./utils/steam-accounts";
+import { getSteamPath } from "./utils/steam-path";
+import { getScreenshots, ScreenshotGame } from "./utils/steam-screenshots";
+
+export default function Command() {
+  return (
+    <SWRConfig value={{ provider: isFakeData ? undefined : cacheProvider }}>
+      <Screenshots />
+    </SWRConfig>
+  );
+}
+
+const Screenshots = () => {
+  const { cache } = useSWRConfig();
+  const [games, setGames] = useState<ScreenshotGame[]>();
+  const [names, setNames] = useState<Map<number, string>>(new Map());
+  const [accounts, setAccounts] = useState<SteamAccount[]>([]);
+  const [accountId, setAccountId] = useState<string>();
+
+  const loadScreenshots = async (selectedAccountId = accountId) => {
+    try {
+      const steamPath = await getSteamPath();
+      if (!steamPath) throw new Error("Steam installation not found");
+      const localAccounts = await getLocalAccounts(steamPath);
+      const account =
+        localAccounts.find((a) => a.accountId === selectedAccountId) ?? (await getDefaultAccount(localAccounts));
+      setAccounts(localAccounts);
+      setAccountId(account?.accountId);
+      setGames(account ? await getScreenshots(steamPath, account.accountId) : []);
+    } catch (error) {
+      console.error("Error loading screenshots:", error);
+      setGames([]);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to Load Screenshots",
+        message: "Could not read Steam's screenshot folders. Check console for details.",
+      });
+    }
+  };
+
+  useEffect(() => {
+    loadScreenshots();
+    // Names come from the last library scan, so this doesn't wait on a full rescan
+    getCachedSteamLibrary().then((library) => {
+      const entries = [...(library?.games ?? []), ...(library?.shortcuts ?? [])].map((app): [number, string] => [
+        app.appid,
+        app.name,
+      ]);
+      setNames(new Map(entries));
+    });
+  }, []);
+
+  const gameName = (appid: number) => {
+    const cached = cache.get(gameDataCacheKey(appid))?.data as GameData | undefined;
+    return names.get(appid) ?? cached?.name ?? `App ${appid}`;
+  };
+
+  return (
+    <Grid
+      isLoading={!games}
+      columns={4}
+      aspectRatio="16/9"
+      fit={Grid.Fit.Fill}
+      searchBarPlaceholder="Search games with screenshots..."
+      searchBarAccessory={
+        accounts.length > 1 ? (
+          <Grid.Dropdown tooltip="Account" value={accountId} onChange={(id) => id !== accountId && loadScreenshots(id)}>
+            {accounts.map((account) => (
+              <Grid.Dropdown.Item
+                key={account.accountId}
+                title={accountDisplayName(account)}
+                value={account.accountId}
+                icon={Icon.Person}
+              />
+            ))}
+          </Grid.Dropdown>
+        ) : undefined
+      }
+    >
+      {games?.length === 0 ? (
+        <Grid.EmptyView
+          icon={Icon.Image}
+          title="No screenshots found"
+          description="Screenshots you take in Steam (F12 by default) will show up here"
+        />
+      ) : (
+        games?.map((game) => {
+          const name = gameName(game.appid);
+          const [latest] = game.screenshots;
+          return (
+            <Grid.Item
+              key={game.appid}
+              content={{ source: latest.thumbnail ?? latest.path, fallback: Icon.Image }}
+              title={name}
+              subtitle={`${game.screenshots.length} screenshot${game.screenshots.length === 1 ? "" : "s"}`}
+              keywords={[String(game.appid)]}
+              actions={
+                <ActionPanel>
+                  <Action.Push
+                    icon={Icon.Image}
+                    title="Show Screenshots"
+                    target={
+                      <GameScreenshots name={name} screenshots={game.screenshots} onChange={() => loadScreenshots()} />
+                    }
+                  />
+                  <ScreenshotActions screenshot={latest} onDelete={() => loadScreenshots()} />
+                </ActionPanel>
+              }
+            />
+          );
+        })
+      )}
+    </Grid>
+  );
+};
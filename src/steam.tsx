@@ -8,7 +8,8 @@ import { MyGamesListType, DynamicGameListItem } from "./components/ListItems";
 import { MyGames } from "./components/MyGames";
 import { Search, SearchList } from "./components/Search";
 import { DefaultActions } from "./components/Actions";
-import { useIsLoggedIn } from "./lib/hooks";
+import { useAuthState } from "./lib/hooks";
+import { AuthError, PrivateProfileNotice } from "./errors";
 import { GameDataSimple } from "./types";
 import { GameRecommendations } from "./components/GameRecommendations";
 
@@ -23,7 +24,9 @@ export default function Command() {
 const App = () => {
   const [search, setSearch] = useState("");
   const [hovered, setHovered] = useState(0);
-  const isLoggedIn = useIsLoggedIn();
+  const { state: auth, isLoggedIn, revalidate: revalidateAuth } = useAuthState();
+  // Private profiles can still browse the games on this computer
+  const isPrivate = auth.status === "private-profile";
   const { data: recentlyPlayed } = useRecentlyPlayedGames();
   const { data: searchedGames } = useGamesSearch({ term: search, execute: search.length > 0 });
   const [recentlyViewed, setRecentlyViewed] = useState<GameDataSimple[]>();
@@ -61,7 +64,25 @@ const App = () => {
         <SearchList searchedGames={searchedGames} hovered={hovered} />
       ) : (
         <>
-          {isLoggedIn ? (
+          {isPrivate ? <PrivateProfileNotice state={auth} onRetry={revalidateAuth} /> : null}
+          {!isLoggedIn && !isPrivate && auth.status !== "validating" ? (
+            <List.Item
+              title="Set up Steam Account"
+              subtitle="See your games, friends and achievements"
+              icon={Icon.Key}
+              actions={
+                <ActionPanel>
+                  <Action.Push
+                    icon={Icon.Key}
+                    title="Set up Steam Account"
+                    target={<AuthError state={auth} onRetry={revalidateAuth} />}
+                  />
+                  <DefaultActions />
+                </ActionPanel>
+              }
+            />
+          ) : null}
+          {isLoggedIn || isPrivate ? (
             <List.Item
               title="My Games"
               icon={{ source: "command-icon.png" }}
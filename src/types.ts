@@ -14,12 +14,6 @@ export type GameDataSimple = {
   playtime_forever: number;
   img_icon_url: string;
 };
-export type GameDataSimpleResponse = {
-  [response: string]: {
-    total_count?: number;
-    games?: GameDataSimple[];
-  };
-};
 export type GameData = {
   type: string;
   name: string;
@@ -90,3 +84,144 @@ export type GameData = {
     date: string;
   };
 };
+
+// Steam Web API (api.steampowered.com) responses, one per endpoint
+
+export type OwnedGame = GameDataSimple & {
+  img_logo_url?: string;
+  has_community_visible_stats?: boolean;
+  playtime_2weeks?: number;
+  playtime_windows_forever?: number;
+  playtime_mac_forever?: number;
+  playtime_linux_forever?: number;
+  rtime_last_played?: number;
+};
+export type OwnedGamesResponse = {
+  response: {
+    game_count?: number;
+    games?: OwnedGame[];
+  };
+};
+export type RecentlyPlayedGamesResponse = {
+  response: {
+    total_count?: number;
+    games?: OwnedGame[];
+  };
+};
+export type SteamLevelResponse = {
+  response: {
+    player_level?: number;
+  };
+};
+
+export type PlayerSummary = {
+  steamid: string;
+  personaname: string;
+  profileurl: string;
+  avatar: string;
+  avatarmedium: string;
+  avatarfull: string;
+  // 0 offline, 1 online, 2 busy, 3 away, 4 snooze, 5 looking to trade, 6 looking to play
+  personastate: number;
+  // 1 private or friends only, 3 public
+  communityvisibilitystate: number;
+  profilestate?: number;
+  lastlogoff?: number;
+  timecreated?: number;
+  gameid?: string;
+  gameextrainfo?: string;
+  loccountrycode?: string;
+};
+export type PlayerSummariesResponse = {
+  response: {
+    players: PlayerSummary[];
+  };
+};
+export type Friend = {
+  steamid: string;
+  relationship: string;
+  friend_since: number;
+};
+export type FriendListResponse = {
+  friendslist?: {
+    friends: Friend[];
+  };
+};
+// A friend's profile together with when they became friends
+export type FriendSummary = PlayerSummary & {
+  friend_since?: number;
+};
+export type ResolveVanityUrlResponse = {
+  response: {
+    // 1 on success, 42 when there's no match
+    success: number;
+    steamid?: string;
+    message?: string;
+  };
+};
+
+export type PlayerAchievement = {
+  apiname: string;
+  achieved: number;
+  unlocktime: number;
+  name?: string;
+  description?: string;
+};
+export type PlayerAchievementsResponse = {
+  playerstats: {
+    steamID?: string;
+    gameName?: string;
+    achievements?: PlayerAchievement[];
+    success: boolean;
+    error?: string;
+  };
+};
+export type SchemaAchievement = {
+  name: string;
+  defaultvalue: number;
+  displayName: string;
+  hidden: number;
+  description?: string;
+  icon: string;
+  icongray: string;
+};
+export type GameSchemaResponse = {
+  game: {
+    gameName?: string;
+    gameVersion?: string;
+    availableGameStats?: {
+      achievements?: SchemaAchievement[];
+    };
+  };
+};
+export type GlobalAchievementPercentagesResponse = {
+  achievementpercentages: {
+    achievements: { name: string; percent: number | string }[];
+  };
+};
+
+export type AppListResponse = {
+  applist: {
+    apps: { appid: number; name: string }[];
+  };
+};
+
+export type NewsItem = {
+  gid: string;
+  title: string;
+  url: string;
+  is_external_url: boolean;
+  author: string;
+  contents: string;
+  feedlabel: string;
+  date: number;
+  feedname: string;
+  appid: number;
+};
+export type NewsForAppResponse = {
+  appnews: {
+    appid: number;
+    newsitems: NewsItem[];
+    count: number;
+  };
+};
@@ -0,0 +1,269 @@
+import { readFile } from "fs/promises";
+
+/**
+ * Decoder for Valve's binary KeyValues format, used by appcache/appinfo.vdf
+ * and userdata/<id>/config/shortcuts.vdf.
+ *
+ * Each entry is a type byte, a key and a value. Maps end with an END byte.
+ */
+
+export type BinaryVdfValue = string | number | bigint | BinaryVdfObject;
+export interface BinaryVdfObject {
+  [key: string]: BinaryVdfValue;
+}
+
+export interface AppInfoEntry {
+  appid: number;
+  infoState: number;
+  lastUpdated: number;
+  changeNumber: number;
+  data: BinaryVdfObject;
+}
+
+const Type = {
+  Map: 0x00,
+  String: 0x01,
+  Int32: 0x02,
+  Float32: 0x03,
+  Pointer: 0x04,
+  WideString: 0x05,
+  Color: 0x06,
+  UInt64: 0x07,
+  End: 0x08,
+  Int64: 0x0a,
+  AlternateEnd: 0x0b,
+} as const;
+
+// appinfo.vdf magic numbers. v29 moved keys into a string table at the end of the file.
+const APPINFO_V27 = 0x07564427;
+const APPINFO_V28 = 0x07564428;
+const APPINFO_V29 = 0x07564429;
+
+/**
+ * Small cursor over a Buffer that fails loudly when reading past the end
+ */
+class Reader {
+  offset: number;
+
+  constructor(
+    private buffer: Buffer,
+    offset = 0,
+  ) {
+    this.offset = offset;
+  }
+
+  get remaining() {
+    return this.buffer.length - this.offset;
+  }
+
+  private ensure(bytes: number) {
+    if (this.offset + bytes > this.buffer.length) {
+      throw new Error(`Unexpected end of binary VDF data at offset ${this.offset}`);
+    }
+  }
+
+  uint8() {
+    this.ensure(1);
+    return this.buffer.readUInt8(this.offset++);
+  }
+
+  int32() {
+    this.ensure(4);
+    const value = this.buffer.readInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  uint32() {
+    this.ensure(4);
+    const value = this.buffer.readUInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  float32() {
+    this.ensure(4);
+    const value = this.buffer.readFloatLE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  uint64() {
+    this.ensure(8);
+    const value = this.buffer.readBigUInt64LE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  int64() {
+    this.ensure(8);
+    const value = this.buffer.readBigInt64LE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  skip(bytes: number) {
+    this.ensure(bytes);
+    this.offset += bytes;
+  }
+
+  cstring() {
+    const end = this.buffer.indexOf(0, this.offset);
+    if (end === -1) {
+      throw new Error(`Unterminated string at offset ${this.offset}`);
+    }
+    const value = this.buffer.toString("utf-8", this.offset, end);
+    this.offset = end + 1;
+    return value;
+  }
+
+  wstring() {
+    let end = this.offset;
+    while (end + 1 < this.buffer.length && (this.buffer[end] !== 0 || this.buffer[end + 1] !== 0)) end += 2;
+    this.ensure(end + 2 - this.offset);
+    const value = this.buffer.toString("utf16le", this.offset, end);
+    this.offset = end + 2;
+    return value;
+  }
+}
+
+/**
+ * Read one map's worth of entries, until its END byte
+ */
+function readMap(reader: Reader, stringTable?: string[]): BinaryVdfObject {
+  const object = Object.create(null) as BinaryVdfObject;
+
+  const readKey = () => {
+    if (!stringTable) return reader.cstring();
+    const index = reader.uint32();
+    if (index >= stringTable.length) {
+      throw new Error(`String table index ${index} out of range at offset ${reader.offset - 4}`);
+    }
+    return stringTable[index];
+  };
+
+  while (true) {
+    const type = reader.uint8();
+    if (type === Type.End || type === Type.AlternateEnd) return object;
+
+    const key = readKey();
+    switch (type) {
+      case Type.Map:
+        object[key] = readMap(reader, stringTable);
+        break;
+      case Type.String:
+        object[key] = reader.cstring();
+        break;
+      case Type.WideString:
+        object[key] = reader.wstring();
+        break;
+      case Type.Int32:
+      case Type.Pointer:
+      case Type.Color:
+        object[key] = reader.int32();
+        break;
+      case Type.Float32:
+        object[key] = reader.float32();
+        break;
+      case Type.UInt64:
+        object[key] = reader.uint64();
+        break;
+      case Type.Int64:
+        object[key] = reader.int64();
+        break;
+      default:
+        throw new Error(`Unknown binary VDF type 0x${type.toString(16)} at offset ${reader.offset - 1}`);
+    }
+  }
+}
+
+/**
+ * Decode a binary KeyValues buffer into a nested object
+ */
+export function parseBinaryVdf(buffer: Buffer, stringTable?: string[]): BinaryVdfObject {
+  return readMap(new Reader(buffer), stringTable);
+}
+
+/**
+ * Decode appcache/appinfo.vdf. Pass appids to skip decoding everything else,
+ * which matters because the file holds every app the client has ever seen.
+ */
+export function parseAppInfo(buffer: Buffer, appids?: Set<number>): Map<number, AppInfoEntry> {
+  const reader = new Reader(buffer);
+  const magic = reader.uint32();
+  if (magic !== APPINFO_V27 && magic !== APPINFO_V28 && magic !== APPINFO_V29) {
+    throw new Error(`Unsupported appinfo.vdf version 0x${magic.toString(16)}`);
+  }
+  reader.uint32(); // universe
+
+  let stringTable: string[] | undefined;
+  if (magic === APPINFO_V29) {
+    const tableOffset = Number(reader.int64());
+    const tableReader = new Reader(buffer, tableOffset);
+    const count = tableReader.uint32();
+    stringTable = Array.from({ length: count }, () => tableReader.cstring());
+  }
+
+  const entries = new Map<number, AppInfoEntry>();
+  while (reader.remaining >= 4) {
+    const appid = reader.uint32();
+    if (appid === 0) break;
+
+    // Size covers everything after itself, so entries we don't want can be skipped whole
+    const size = reader.uint32();
+    const end = reader.offset + size;
+    if (appids && !appids.has(appid)) {
+      reader.skip(size);
+      continue;
+    }
+
+    const infoState = reader.uint32();
+    const lastUpdated = reader.uint32();
+    reader.uint64(); // PICS access token
+    reader.skip(20); // SHA-1 of the text form
+    const changeNumber = reader.uint32();
+    if (magic !== APPINFO_V27) reader.skip(20); // SHA-1 of the binary data
+
+    const data = readMap(reader, stringTable);
+    entries.set(appid, { appid, infoState, lastUpdated, changeNumber, data });
+    reader.offset = end;
+  }
+
+  return entries;
+}
+
+/**
+ * Decode a shortcuts.vdf buffer into its list of non-Steam game entries
+ */
+export function parseShortcuts(buffer: Buffer): BinaryVdfObject[] {
+  const root = parseBinaryVdf(buffer);
+  const shortcuts = Object.entries(root).find(([key]) => key.toLowerCase() === "shortcuts")?.[1];
+  if (!shortcuts || typeof shortcuts !== "object") return [];
+  // Entries are keyed "0", "1", ... in the order Steam shows them
+  return Object.keys(shortcuts)
+    .sort((a, b) => Number(a) - Number(b))
+    .map((key) => shortcuts[key])
+    .filter((entry): entry is BinaryVdfObject => typeof entry === "object");
+}
+
+export async function readAppInfoFile(path: string, appids?: Set<number>) {
+  return parseAppInfo(await readFile(path), appids);
+}
+
+export async function readShortcutsFile(path: string) {
+  return parseShortcuts(await readFile(path));
+}
+
+/**
+ * Look up a key case-insensitively. Shortcut keys in particular vary ("appname" vs "AppName").
+ */
+export function binaryVdfGet(object: BinaryVdfValue | undefined, ...path: string[]): BinaryVdfValue | undefined {
+  let current = object;
+  for (const key of path) {
+    if (typeof current !== "object") return undefined;
+    const lower = key.toLowerCase();
+    const match = key in current ? key : Object.keys(current).find((k) => k.toLowerCase() === lower);
+    current = match === undefined ? undefined : current[match];
+  }
+  return current;
+}
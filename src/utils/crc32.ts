@@ -0,0 +1,18 @@
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * Standard CRC-32 (IEEE), as used by zip files and Steam's shortcut ids
+ */
+export function crc32(input: string | Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of typeof input === "string" ? Buffer.from(input, "utf-8") : input) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
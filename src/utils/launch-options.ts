@@ -0,0 +1,84 @@
+import { environment } from "@raycast/api";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname, resolve } from "path";
+import { isErrnoCode } from "../lib/util";
+
+export interface LaunchOptionsHistoryEntry {
+  // The value that was replaced
+  value: string;
+  // Milliseconds since the epoch
+  changedAt: number;
+}
+
+export interface LaunchOptionsPreset {
+  title: string;
+  value: string;
+}
+
+interface LaunchOptionsStore {
+  presets: LaunchOptionsPreset[];
+  // Keyed by appid, newest first
+  history: Record<string, LaunchOptionsHistoryEntry[]>;
+}
+
+const STORE_FILE = "launch-options.json";
+const MAX_HISTORY = 20;
+
+export const DEFAULT_PRESETS: LaunchOptionsPreset[] = [
+  { title: "Proton Log", value: "PROTON_LOG=1 %command%" },
+  { title: "Force WineD3D", value: "PROTON_USE_WINED3D=1 %command%" },
+  { title: "GameMode", value: "gamemoderun %command%" },
+  { title: "MangoHud", value: "mangohud %command%" },
+  { title: "DirectX 11", value: "-dx11" },
+  { title: "Skip Intro Videos", value: "-novid" },
+];
+
+const getStorePath = () => resolve(environment.supportPath, STORE_FILE);
+
+async function readStore(): Promise<LaunchOptionsStore> {
+  try {
+    const store = JSON.parse(await readFile(getStorePath(), "utf-8")) as Partial<LaunchOptionsStore>;
+    return { presets: store.presets ?? [], history: store.history ?? {} };
+  } catch (e) {
+    if (!isErrnoCode(e, "ENOENT")) {
+      console.error("Failed reading launch options store", e);
+    }
+    return { presets: [], history: {} };
+  }
+}
+
+async function writeStore(store: LaunchOptionsStore) {
+  await mkdir(dirname(getStorePath()), { recursive: true });
+  await writeFile(getStorePath(), JSON.stringify(store, null, 2), "utf-8");
+}
+
+/**
+ * Built-in presets followed by the ones the user saved
+ */
+export async function getLaunchOptionsPresets(): Promise<LaunchOptionsPreset[]> {
+  return [...DEFAULT_PRESETS, ...(await readStore()).presets];
+}
+
+export async function saveLaunchOptionsPreset(preset: LaunchOptionsPreset) {
+  const store = await readStore();
+  store.presets = [...store.presets.filter((p) => p.value !== preset.value), preset];
+  await writeStore(store);
+}
+
+/**
+ * Previous launch options for a game, newest first
+ */
+export async function getLaunchOptionsHistory(appid: number): Promise<LaunchOptionsHistoryEntry[]> {
+  return (await readStore()).history[appid] ?? [];
+}
+
+/**
+ * Remember a value that's about to be replaced, so the change can be reverted
+ */
+export async function addLaunchOptionsHistory(appid: number, value: string) {
+  const store = await readStore();
+  const history = store.history[appid] ?? [];
+  if (history[0]?.value === value) return;
+  store.history[appid] = [{ value, changedAt: Date.now() }, ...history].slice(0, MAX_HISTORY);
+  await writeStore(store);
+}
@@ -0,0 +1,55 @@
+import { environment } from "@raycast/api";
+import { readFile, writeFile } from "fs/promises";
+import { resolve } from "path";
+import type { SteamGame, SteamLibraryInfo } from "./steam-library";
+import { isErrnoCode } from "../lib/util";
+
+const CACHE_FILE = "library-cache.json";
+// Bump when the shape of SteamGame changes so stale entries get re-parsed
+const CACHE_VERSION = 4;
+
+export interface CachedManifest {
+  mtimeMs: number;
+  size: number;
+  // Undefined for manifests we skip (system apps, incomplete installs)
+  game?: SteamGame;
+}
+
+export interface LibraryCache {
+  version: number;
+  // Keyed by manifest path
+  manifests: Record<string, CachedManifest>;
+  // The last full scan, shown while a new one runs
+  library?: SteamLibraryInfo;
+}
+
+const emptyCache = (): LibraryCache => ({ version: CACHE_VERSION, manifests: {} });
+
+export async function loadLibraryCache(): Promise<LibraryCache> {
+  const path = resolve(environment.supportPath, CACHE_FILE);
+  try {
+    const cache = JSON.parse(await readFile(path, { encoding: "utf-8" })) as LibraryCache;
+    return cache?.version === CACHE_VERSION ? cache : emptyCache();
+  } catch (e) {
+    if (!isErrnoCode(e, "ENOENT")) {
+      console.error("Failed reading library cache", e);
+    }
+    return emptyCache();
+  }
+}
+
+export async function saveLibraryCache(cache: Omit<LibraryCache, "version">) {
+  const path = resolve(environment.supportPath, CACHE_FILE);
+  try {
+    await writeFile(path, JSON.stringify({ ...cache, version: CACHE_VERSION }), { encoding: "utf-8" });
+  } catch (e) {
+    console.error("Failed persisting library cache", e);
+  }
+}
+
+/**
+ * The library as of the last completed scan, if there was one
+ */
+export async function getCachedSteamLibrary(): Promise<SteamLibraryInfo | undefined> {
+  return (await loadLibraryCache()).library;
+}
@@ -0,0 +1,44 @@
+import { copyFile, readdir, rename, rm, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { basename, dirname, join } from "path";
+
+// Backups live in Steam's own folders, so only keep the most recent few
+const BACKUP_LIMIT = 3;
+
+/**
+ * Copy a file next to itself with a timestamp, e.g. config.vdf.2024-05-01T10-00-00.bak,
+ * and remove all but the latest BACKUP_LIMIT backups of it
+ */
+export async function backupFile(path: string): Promise<string | undefined> {
+  if (!existsSync(path)) return undefined;
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupPath = `${path}.${stamp}.bak`;
+  await copyFile(path, backupPath);
+
+  const name = basename(path);
+  const stampPattern = /^\d{4}-\d{2}-\d{2}T[\d-]+Z$/;
+  const backups = (await readdir(dirname(path)))
+    .filter((file) => file.startsWith(`${name}.`) && file.endsWith(".bak"))
+    .filter((file) => stampPattern.test(file.slice(name.length + 1, -".bak".length)))
+    // ISO timestamps sort chronologically
+    .sort()
+    .reverse();
+  await Promise.all(
+    backups
+      .slice(BACKUP_LIMIT)
+      .map((file) =>
+        rm(join(dirname(path), file)).catch((error) => console.error("Failed to remove old backup:", error)),
+      ),
+  );
+  return backupPath;
+}
+
+/**
+ * Write through a temporary file and rename it into place, so a crash
+ * never leaves Steam with a half-written config
+ */
+export async function writeFileAtomic(path: string, content: string) {
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tempPath, content, { encoding: "utf-8" });
+  await rename(tempPath, path);
+}
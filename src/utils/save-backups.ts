@@ -0,0 +1,243 @@
+import { environment } from "@raycast/api";
+import { existsSync } from "fs";
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "fs/promises";
+import { dirname, isAbsolute, join, parse, relative, resolve } from "path";
+import { homedir } from "os";
+import { getDefaultAccount, getLocalAccounts } from "./steam-accounts";
+import { formatFileSize, SteamGame } from "./steam-library";
+import { ensureGameClosed } from "./steam-process";
+import { getUserdataPath } from "./steam-userdata";
+import { createZip, readZip, ZipEntry } from "./zip";
+import { isErrnoCode } from "../lib/util";
+
+export interface SaveLocation {
+  // Folder name inside the snapshot zip
+  id: string;
+  label: string;
+  path: string;
+  source: "cloud" | "custom";
+  exists: boolean;
+}
+
+export interface SaveSnapshot {
+  path: string;
+  appid: number;
+  createdAt: number;
+  size: number;
+}
+
+interface SnapshotManifest {
+  appid: number;
+  name: string;
+  createdAt: number;
+  locations: Pick<SaveLocation, "id" | "label" | "path">[];
+}
+
+const BACKUPS_DIR = "save-backups";
+// Kept on disk rather than in LocalStorage so "Clear Recent History" doesn't wipe it
+const CUSTOM_PATHS_FILE = "custom-paths.json";
+const MANIFEST_NAME = "snapshot.json";
+// Snapshots are built in memory, so keep them well below what a Buffer can hold
+const MAX_SNAPSHOT_SIZE = 1024 ** 3;
+
+const getBackupsPath = (...segments: string[]) => resolve(environment.supportPath, BACKUPS_DIR, ...segments);
+
+async function readCustomPaths(): Promise<Record<string, string[]>> {
+  try {
+    return JSON.parse(await readFile(getBackupsPath(CUSTOM_PATHS_FILE), "utf-8"));
+  } catch (e) {
+    if (!isErrnoCode(e, "ENOENT")) {
+      console.error("Failed reading custom save paths", e);
+    }
+    return {};
+  }
+}
+
+/**
+ * Extra save folders configured for a game, as entered by the user
+ */
+export async function getCustomSavePaths(appid: number): Promise<string[]> {
+  return (await readCustomPaths())[appid] ?? [];
+}
+
+export async function setCustomSavePaths(appid: number, paths: string[]) {
+  const customPaths = await readCustomPaths();
+  customPaths[appid] = paths;
+  await mkdir(getBackupsPath(), { recursive: true });
+  await writeFile(getBackupsPath(CUSTOM_PATHS_FILE), JSON.stringify(customPaths, null, 2), "utf-8");
+}
+
+/**
+ * Expand ~ and resolve relative paths against the game's Proton prefix,
+ * so "drive_c/users/steamuser/..." works without knowing the library path
+ */
+export function resolveSavePath(game: SteamGame, path: string): string {
+  if (path === "~" || path.startsWith("~/")) return join(homedir(), path.slice(1));
+  if (isAbsolute(path)) return path;
+  return join(game.libraryPath, "steamapps", "compatdata", String(game.appid), "pfx", path);
+}
+
+/**
+ * Where a game keeps its saves: Steam Cloud's per-user remote folder plus any custom paths
+ */
+export async function getSaveLocations(steamPath: string, game: SteamGame, accountId?: string) {
+  const account = accountId ?? (await getDefaultAccount(await getLocalAccounts(steamPath)))?.accountId;
+  const locations: SaveLocation[] = [];
+  if (account) {
+    const path = join(getUserdataPath(steamPath, account), String(game.appid), "remote");
+    locations.push({ id: "remote", label: "Steam Cloud", path, source: "cloud", exists: existsSync(path) });
+  }
+  (await getCustomSavePaths(game.appid)).forEach((customPath, index) => {
+    const path = resolveSavePath(game, customPath);
+    locations.push({ id: `custom-${index}`, label: customPath, path, source: "custom", exists: existsSync(path) });
+  });
+  return locations;
+}
+
+async function listFiles(root: string, dir = root): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const entryPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(root, entryPath)));
+    } else if (entry.isFile()) {
+      files.push(relative(root, entryPath));
+    }
+  }
+  return files;
+}
+
+/**
+ * Snapshot names are ISO timestamps with the colons and dot replaced, e.g. 2024-05-01T10-00-00-000Z.zip
+ */
+function parseSnapshotDate(fileName: string): number | undefined {
+  const iso = fileName.replace(/\.zip$/, "").replace(/T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/, "T$1:$2:$3.$4Z");
+  const date = Date.parse(iso);
+  return Number.isNaN(date) ? undefined : date;
+}
+
+/**
+ * Zip every existing save location into a timestamped snapshot. Undefined when there was nothing to save.
+ */
+async function writeSnapshot(
+  steamPath: string,
+  game: SteamGame,
+  accountId?: string,
+): Promise<SaveSnapshot | undefined> {
+  const locations = (await getSaveLocations(steamPath, game, accountId)).filter((location) => location.exists);
+  const entries: ZipEntry[] = [];
+  let size = 0;
+  for (const location of locations) {
+    for (const file of await listFiles(location.path)) {
+      const filePath = join(location.path, file);
+      const stats = await stat(filePath);
+      size += stats.size;
+      if (size > MAX_SNAPSHOT_SIZE) {
+        throw new Error(
+          `Saves are over the ${formatFileSize(MAX_SNAPSHOT_SIZE)} snapshot limit, check the save folders`,
+        );
+      }
+      entries.push({
+        // Zip paths always use forward slashes
+        name: [location.id, ...file.split(/[\\/]/)].join("/"),
+        data: await readFile(filePath),
+        modified: stats.mtime,
+      });
+    }
+  }
+  if (!entries.length) return undefined;
+
+  const createdAt = Date.now();
+  const manifest: SnapshotManifest = {
+    appid: game.appid,
+    name: game.name,
+    createdAt,
+    locations: locations.map(({ id, label, path }) => ({ id, label, path })),
+  };
+  entries.push({ name: MANIFEST_NAME, data: Buffer.from(JSON.stringify(manifest, null, 2), "utf-8") });
+
+  const zip = createZip(entries);
+  const path = getBackupsPath(String(game.appid), `${new Date(createdAt).toISOString().replace(/[:.]/g, "-")}.zip`);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, zip);
+  return { path, appid: game.appid, createdAt, size: zip.length };
+}
+
+export async function createSnapshot(steamPath: string, game: SteamGame, accountId?: string): Promise<SaveSnapshot> {
+  const snapshot = await writeSnapshot(steamPath, game, accountId);
+  if (!snapshot) throw new Error("No save files found");
+  return snapshot;
+}
+
+/**
+ * List a game's snapshots, newest first
+ */
+export async function getSnapshots(appid: number): Promise<SaveSnapshot[]> {
+  const dir = getBackupsPath(String(appid));
+  if (!existsSync(dir)) return [];
+  const snapshots = await Promise.all(
+    (await readdir(dir))
+      .filter((fileName) => fileName.endsWith(".zip"))
+      .map(async (fileName) => {
+        const path = join(dir, fileName);
+        const stats = await stat(path);
+        return { path, appid, createdAt: parseSnapshotDate(fileName) ?? stats.mtimeMs, size: stats.size };
+      }),
+  );
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * True for folders that hold far more than saves: the home folder, the filesystem root,
+ * the Steam root or anything above them
+ */
+function isProtectedPath(path: string, steamPath: string) {
+  const target = resolve(path);
+  return [homedir(), parse(target).root, steamPath].some((protectedPath) => {
+    const inside = relative(target, resolve(protectedPath));
+    return !inside.startsWith("..") && !isAbsolute(inside);
+  });
+}
+
+/**
+ * Replace the game's save folders with a snapshot's contents. The current saves are
+ * snapshotted first, and nothing is touched while the game is running.
+ * Only folders that are still configured save locations for the game get replaced.
+ */
+export async function restoreSnapshot(steamPath: string, game: SteamGame, snapshot: SaveSnapshot, accountId?: string) {
+  await ensureGameClosed(steamPath, game.appid);
+
+  const entries = readZip(await readFile(snapshot.path));
+  const manifestEntry = entries.find((entry) => entry.name === MANIFEST_NAME);
+  if (!manifestEntry) throw new Error("Snapshot is missing its manifest");
+  const manifest = JSON.parse(manifestEntry.data.toString("utf-8")) as SnapshotManifest;
+  if (manifest.appid !== game.appid) throw new Error(`Snapshot belongs to another game (${manifest.appid})`);
+
+  const configured = (await getSaveLocations(steamPath, game, accountId)).map((location) => resolve(location.path));
+  const locations = manifest.locations.filter((location) => configured.includes(resolve(location.path)));
+  if (!locations.length) throw new Error("None of the snapshot's folders are save locations for this game anymore");
+  const unsafe = locations.find((location) => isProtectedPath(location.path, steamPath));
+  if (unsafe) throw new Error(`Refusing to replace ${unsafe.path}, pick a more specific save folder`);
+
+  // Nothing to back up is fine, the folders are about to be filled anyway
+  await writeSnapshot(steamPath, game, accountId);
+
+  for (const location of locations) {
+    await rm(location.path, { recursive: true, force: true });
+    await mkdir(location.path, { recursive: true });
+  }
+  for (const entry of entries) {
+    const [id, ...segments] = entry.name.split("/");
+    const location = locations.find((l) => l.id === id);
+    if (!location) continue;
+    const target = join(location.path, ...segments);
+    // Never write outside the folder the snapshot was taken from
+    if (relative(location.path, target).startsWith("..")) continue;
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, entry.data);
+  }
+}
+
+export async function deleteSnapshot(snapshot: SaveSnapshot) {
+  await rm(snapshot.path, { force: true });
+}
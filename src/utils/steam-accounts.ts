@@ -0,0 +1,88 @@
+import { existsSync } from "fs";
+import { stat } from "fs/promises";
+import { join } from "path";
+import { loadCredentials } from "../lib/credentials";
+import { accountIdToSteamId64, steamId64ToAccountId, toSteamId64 } from "./steam-id";
+import { getLocalAccountIds } from "./steam-userdata";
+import { getLocalConfigPath } from "./steam-localconfig";
+import { readVdfFile, vdfNumber, vdfObject, vdfString } from "./vdf";
+
+export interface SteamAccount {
+  steamId64: string;
+  // 32-bit account id, the folder name under userdata/
+  accountId: string;
+  accountName?: string;
+  personaName?: string;
+  mostRecent: boolean;
+  // Last login, unix timestamp
+  timestamp?: number;
+  hasUserdata: boolean;
+}
+
+/**
+ * List accounts that have logged in on this machine, from config/loginusers.vdf,
+ * plus any userdata folders it doesn't mention
+ */
+export async function getLocalAccounts(steamPath: string): Promise<SteamAccount[]> {
+  const accountIds = await getLocalAccountIds(steamPath);
+  const accounts = new Map<string, SteamAccount>();
+
+  const loginUsersPath = join(steamPath, "config", "loginusers.vdf");
+  if (existsSync(loginUsersPath)) {
+    try {
+      const users = vdfObject(await readVdfFile(loginUsersPath), "users") ?? {};
+      for (const [steamId64, user] of Object.entries(users)) {
+        if (!/^\d+$/.test(steamId64) || typeof user !== "object") continue;
+        const accountId = steamId64ToAccountId(steamId64);
+        accounts.set(accountId, {
+          steamId64,
+          accountId,
+          accountName: vdfString(user, "AccountName"),
+          personaName: vdfString(user, "PersonaName"),
+          mostRecent: vdfString(user, "MostRecent") === "1",
+          timestamp: vdfNumber(user, "Timestamp"),
+          hasUserdata: accountIds.includes(accountId),
+        });
+      }
+    } catch (error) {
+      console.error("Error reading loginusers.vdf:", error);
+    }
+  }
+
+  for (const accountId of accountIds) {
+    if (accounts.has(accountId)) continue;
+    // Without loginusers.vdf, use when localconfig.vdf was last written as the login time
+    const timestamp = await stat(getLocalConfigPath(steamPath, accountId))
+      .then(({ mtimeMs }) => Math.floor(mtimeMs / 1000))
+      .catch(() => undefined);
+    accounts.set(accountId, {
+      steamId64: accountIdToSteamId64(accountId),
+      accountId,
+      mostRecent: false,
+      timestamp,
+      hasUserdata: true,
+    });
+  }
+
+  return Array.from(accounts.values()).sort((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0));
+}
+
+/**
+ * Pick the account to show: the one matching the configured Steam ID, then
+ * whoever Steam last logged in as
+ */
+export async function getDefaultAccount(accounts: SteamAccount[]): Promise<SteamAccount | undefined> {
+  const { steamid } = await loadCredentials();
+  // Vanity names would need the network, those fall through to the most recent login
+  const preferred = steamid ? toSteamId64(steamid) : undefined;
+  const withData = accounts.filter((account) => account.hasUserdata);
+  return (
+    withData.find((account) => account.steamId64 === preferred) ??
+    withData.find((account) => account.mostRecent) ??
+    withData[0] ??
+    accounts[0]
+  );
+}
+
+export const accountDisplayName = (account: SteamAccount) =>
+  account.personaName || account.accountName || account.steamId64;
@@ -0,0 +1,102 @@
+/**
+ * Decoding for the StateFlags bitmask in appmanifest_*.acf (Steam's EAppState)
+ */
+
+export const AppStateFlag = {
+  Uninstalled: 1 << 0,
+  UpdateRequired: 1 << 1,
+  FullyInstalled: 1 << 2,
+  Encrypted: 1 << 3,
+  Locked: 1 << 4,
+  FilesMissing: 1 << 5,
+  AppRunning: 1 << 6,
+  FilesCorrupt: 1 << 7,
+  UpdateRunning: 1 << 8,
+  UpdatePaused: 1 << 9,
+  UpdateStarted: 1 << 10,
+  Uninstalling: 1 << 11,
+  BackupRunning: 1 << 12,
+  Reconfiguring: 1 << 16,
+  Validating: 1 << 17,
+  AddingFiles: 1 << 18,
+  Preallocating: 1 << 19,
+  Downloading: 1 << 20,
+  Staging: 1 << 21,
+  Committing: 1 << 22,
+  UpdateStopping: 1 << 23,
+} as const;
+
+export type AppStateFlagName = keyof typeof AppStateFlag;
+
+export type SteamGameStatus =
+  | "installed"
+  | "updateRequired"
+  | "updating"
+  | "downloading"
+  | "paused"
+  | "filesMissing"
+  | "uninstalling"
+  | "uninstalled";
+
+export interface SteamDownloadProgress {
+  bytesToDownload: number;
+  bytesDownloaded: number;
+  bytesToStage: number;
+  bytesStaged: number;
+}
+
+/**
+ * List the names of every flag set in a StateFlags value
+ */
+export function decodeStateFlags(flags: number): AppStateFlagName[] {
+  return (Object.keys(AppStateFlag) as AppStateFlagName[]).filter((name) => (flags & AppStateFlag[name]) !== 0);
+}
+
+/**
+ * Reduce StateFlags to the single status worth showing, most urgent first
+ */
+export function getGameStatus(flags?: number): SteamGameStatus {
+  if (flags === undefined) return "installed";
+  if (flags & AppStateFlag.Uninstalling) return "uninstalling";
+  if (flags & (AppStateFlag.FilesMissing | AppStateFlag.FilesCorrupt)) return "filesMissing";
+  if (flags & AppStateFlag.UpdatePaused) return "paused";
+  if (flags & (AppStateFlag.Downloading | AppStateFlag.Preallocating)) return "downloading";
+  if (
+    flags &
+    (AppStateFlag.UpdateRunning | AppStateFlag.UpdateStarted | AppStateFlag.Staging | AppStateFlag.Committing)
+  ) {
+    return "updating";
+  }
+  // 0 is StateInvalid; neither it nor a bare Uninstalled means there's an update to fetch
+  if (flags === 0 || (flags & AppStateFlag.Uninstalled && !(flags & AppStateFlag.FullyInstalled))) {
+    return "uninstalled";
+  }
+  if (flags & AppStateFlag.UpdateRequired || !(flags & AppStateFlag.FullyInstalled)) return "updateRequired";
+  return "installed";
+}
+
+/**
+ * Percentage through the current download, or staging once downloading is done
+ */
+export function getDownloadPercent(progress?: SteamDownloadProgress): number | undefined {
+  if (!progress) return undefined;
+  const { bytesToDownload, bytesDownloaded, bytesToStage, bytesStaged } = progress;
+  if (bytesToDownload > 0 && bytesDownloaded < bytesToDownload) {
+    return Math.floor((bytesDownloaded / bytesToDownload) * 100);
+  }
+  if (bytesToStage > 0 && bytesStaged < bytesToStage) {
+    return Math.floor((bytesStaged / bytesToStage) * 100);
+  }
+  return undefined;
+}
+
+export const STATUS_LABELS: Record<SteamGameStatus, string> = {
+  installed: "Installed",
+  updateRequired: "Update Required",
+  updating: "Updating",
+  downloading: "Downloading",
+  paused: "Paused",
+  filesMissing: "Files Missing",
+  uninstalling: "Uninstalling",
+  uninstalled: "Not Installed",
+};
@@ -0,0 +1,141 @@
+import { existsSync } from "fs";
+import { join } from "path";
+import { BinaryVdfObject, BinaryVdfValue, binaryVdfGet, readAppInfoFile } from "./binary-vdf";
+
+export type DeckCompatibility = "unknown" | "unsupported" | "playable" | "verified";
+
+export interface SteamAppInfo {
+  type?: string;
+  name?: string;
+  // Same hash as the Web API's img_icon_url
+  icon?: string;
+  developers: string[];
+  publishers: string[];
+  releaseDate?: number;
+  // Same shape as the store api's GameData["categories"]
+  categories: { id: number; description: string }[];
+  deckCompatibility?: DeckCompatibility;
+}
+
+// Descriptions for the store category ids appinfo references as "category_<id>"
+const CATEGORY_NAMES: Record<number, string> = {
+  1: "Multi-player",
+  2: "Single-player",
+  8: "Valve Anti-Cheat enabled",
+  9: "Co-op",
+  13: "Captions available",
+  14: "Commentary available",
+  15: "Stats",
+  16: "Includes Source SDK",
+  17: "Includes level editor",
+  18: "Partial Controller Support",
+  20: "MMO",
+  22: "Steam Achievements",
+  23: "Steam Cloud",
+  24: "Shared/Split Screen",
+  25: "Steam Leaderboards",
+  27: "Cross-Platform Multiplayer",
+  28: "Full controller support",
+  29: "Steam Trading Cards",
+  30: "Steam Workshop",
+  31: "VR Support",
+  35: "In-App Purchases",
+  36: "Online PvP",
+  37: "Shared/Split Screen PvP",
+  38: "Online Co-op",
+  39: "Shared/Split Screen Co-op",
+  41: "Remote Play on Phone",
+  42: "Remote Play on Tablet",
+  43: "Remote Play on TV",
+  44: "Remote Play Together",
+  47: "LAN PvP",
+  48: "LAN Co-op",
+  49: "PvP",
+  53: "VR Supported",
+  54: "VR Only",
+  62: "Family Sharing",
+};
+
+const DECK_COMPATIBILITY: Record<number, DeckCompatibility> = {
+  0: "unknown",
+  1: "unsupported",
+  2: "playable",
+  3: "verified",
+};
+
+const asString = (value: BinaryVdfValue | undefined) =>
+  typeof value === "string" || typeof value === "number" || typeof value === "bigint" ? String(value) : undefined;
+
+const asNumber = (value: BinaryVdfValue | undefined) => {
+  const number = Number(asString(value));
+  return asString(value) && Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Developers and publishers live in common.associations on newer entries, extended.* on older ones
+ */
+function associations(common: BinaryVdfValue | undefined, extended: BinaryVdfValue | undefined, type: string) {
+  const entries = binaryVdfGet(common, "associations");
+  const names =
+    typeof entries === "object"
+      ? Object.values(entries)
+          .filter((entry) => asString(binaryVdfGet(entry, "type")) === type)
+          .map((entry) => asString(binaryVdfGet(entry, "name")))
+          .filter((name): name is string => Boolean(name))
+      : [];
+  if (names.length) return names;
+  const fallback = asString(binaryVdfGet(extended, type));
+  return fallback ? [fallback] : [];
+}
+
+/**
+ * Turn one raw appinfo entry into the fields we care about
+ */
+export function toSteamAppInfo(data: BinaryVdfObject): SteamAppInfo {
+  // The entry is usually wrapped in an "appinfo" map
+  const root = binaryVdfGet(data, "appinfo") ?? data;
+  const common = binaryVdfGet(root, "common");
+  const extended = binaryVdfGet(root, "extended");
+
+  const categoryMap = binaryVdfGet(common, "category");
+  const categories =
+    typeof categoryMap === "object"
+      ? Object.keys(categoryMap)
+          .map((key) => Number(key.replace(/^category_/, "")))
+          .filter((id) => Number.isFinite(id))
+          .map((id) => ({ id, description: CATEGORY_NAMES[id] ?? `Category ${id}` }))
+      : [];
+
+  const deck = asNumber(binaryVdfGet(common, "steam_deck_compatibility", "category"));
+
+  return {
+    type: asString(binaryVdfGet(common, "type"))?.toLowerCase(),
+    name: asString(binaryVdfGet(common, "name")),
+    icon: asString(binaryVdfGet(common, "icon")),
+    developers: associations(common, extended, "developer"),
+    publishers: associations(common, extended, "publisher"),
+    releaseDate:
+      asNumber(binaryVdfGet(common, "steam_release_date")) ?? asNumber(binaryVdfGet(common, "original_release_date")),
+    categories,
+    deckCompatibility: deck === undefined ? undefined : DECK_COMPATIBILITY[deck],
+  };
+}
+
+/**
+ * Read appcache/appinfo.vdf for the given apps. Missing or unreadable caches give an empty map.
+ */
+export async function getAppInfo(steamPath: string, appids: number[]): Promise<Map<number, SteamAppInfo>> {
+  const result = new Map<number, SteamAppInfo>();
+  const appInfoPath = join(steamPath, "appcache", "appinfo.vdf");
+  if (!existsSync(appInfoPath) || appids.length === 0) return result;
+
+  try {
+    const entries = await readAppInfoFile(appInfoPath, new Set(appids));
+    for (const [appid, entry] of entries) {
+      result.set(appid, toSteamAppInfo(entry.data));
+    }
+  } catch (error) {
+    console.error("Error reading appinfo.vdf:", error);
+  }
+  return result;
+}
@@ -0,0 +1,219 @@
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { getUserdataPath } from "./steam-userdata";
+import { readVdfFile, vdfObject, vdfString } from "./vdf";
+
+export interface SteamCollection {
+  id: string;
+  name: string;
+  // Members of a static collection. Empty for dynamic ones, see resolveCollection.
+  appids: number[];
+  dynamic: boolean;
+  searchText?: string;
+  // Rule groups of a dynamic collection that local data can answer, see FILTER_GROUPS
+  filterGroups?: CollectionFilterGroup[];
+  // False when some rule needs data we don't have locally (store tags, friends etc)
+  resolvable: boolean;
+}
+
+export interface CollectionFilterGroup {
+  kind: FilterGroupKind;
+  options: number[];
+  // Match any option rather than all of them
+  union: boolean;
+}
+
+/**
+ * What we know about an app locally. Rules about anything left undefined don't match.
+ */
+export interface CollectionApp {
+  appid?: number;
+  name?: string;
+  installed?: boolean;
+  played?: boolean;
+  // appinfo.vdf type: game, application, tool, demo...
+  type?: string;
+  // Store category ids
+  categories?: number[];
+}
+
+type FilterGroupKind = "type" | "playState" | "features";
+
+// Position of each rule group in filterSpec.filterGroups, as the Steam client writes them.
+// Other positions hold genres, store tags, friends and the like, which only the store knows.
+const FILTER_GROUPS: Record<number, FilterGroupKind> = {
+  0: "type",
+  1: "playState",
+  4: "features",
+};
+
+// Type options, matched against appinfo.vdf's common.type
+const TYPE_OPTIONS: Record<number, string> = {
+  1: "game",
+  2: "application",
+  4: "tool",
+  8: "demo",
+  2048: "music",
+};
+
+const PLAY_STATE_OPTIONS = {
+  installed: 1,
+  played: 2,
+  unplayed: 3,
+};
+
+const isKnownOption = (kind: FilterGroupKind, option: number) => {
+  if (kind === "type") return option in TYPE_OPTIONS;
+  if (kind === "playState") return Object.values(PLAY_STATE_OPTIONS).includes(option);
+  // Feature options are store category ids, which appinfo.vdf carries too
+  return true;
+};
+
+function matchesOption(kind: FilterGroupKind, option: number, app: CollectionApp): boolean {
+  switch (kind) {
+    case "type":
+      return app.type !== undefined && app.type === TYPE_OPTIONS[option];
+    case "playState":
+      if (option === PLAY_STATE_OPTIONS.installed) return app.installed === true;
+      if (option === PLAY_STATE_OPTIONS.played) return app.played === true;
+      return app.played === false;
+    case "features":
+      return Boolean(app.categories?.includes(option));
+  }
+}
+
+/**
+ * Keep the rule groups we can evaluate, or undefined if any rule needs data we don't have
+ */
+function parseFilterGroups(groups: FilterGroupValue[]): CollectionFilterGroup[] | undefined {
+  const parsed: CollectionFilterGroup[] = [];
+  for (const [index, group] of groups.entries()) {
+    const options = (group.rgOptions ?? []).map(Number);
+    if (!options.length) continue;
+    const kind = FILTER_GROUPS[index];
+    if (!kind || !options.every((option) => Number.isFinite(option) && isKnownOption(kind, option))) {
+      return undefined;
+    }
+    parsed.push({ kind, options, union: group.bAcceptUnion !== false });
+  }
+  return parsed;
+}
+
+type CloudStorageEntry = {
+  key: string;
+  value?: string;
+  is_deleted?: boolean;
+};
+
+type CollectionValue = {
+  id?: string;
+  name?: string;
+  added?: number[];
+  removed?: number[];
+  filterSpec?: {
+    strSearchText?: string;
+    filterGroups?: FilterGroupValue[];
+  };
+};
+
+type FilterGroupValue = { rgOptions?: unknown[]; bAcceptUnion?: boolean };
+
+// Built-in collections are stored without a display name
+const BUILT_IN_NAMES: Record<string, string> = {
+  favorite: "Favorites",
+  hidden: "Hidden",
+};
+
+/**
+ * Current clients keep collections in the account's cloud storage namespace as
+ * "user-collections.<id>" entries whose value is JSON
+ */
+async function readCloudStorageCollections(userPath: string): Promise<SteamCollection[] | undefined> {
+  const path = join(userPath, "config", "cloudstorage", "cloud-storage-namespace-1.json");
+  if (!existsSync(path)) return undefined;
+
+  const entries = JSON.parse(await readFile(path, "utf-8")) as [string, CloudStorageEntry][];
+  const collections: SteamCollection[] = [];
+  for (const [key, entry] of entries) {
+    if (!key.startsWith("user-collections.") || entry?.is_deleted || !entry?.value) continue;
+    const value = JSON.parse(entry.value) as CollectionValue;
+    const id = value.id ?? key.replace("user-collections.", "");
+    const removed = new Set(value.removed ?? []);
+    const filterSpec = value.filterSpec;
+    const filterGroups = filterSpec ? parseFilterGroups(filterSpec.filterGroups ?? []) : undefined;
+
+    collections.push({
+      id,
+      name: value.name || BUILT_IN_NAMES[id] || id,
+      appids: (value.added ?? []).filter((appid) => !removed.has(appid)),
+      dynamic: Boolean(filterSpec),
+      searchText: filterSpec?.strSearchText || undefined,
+      filterGroups,
+      resolvable: !filterSpec || filterGroups !== undefined,
+    });
+  }
+  return collections;
+}
+
+/**
+ * Older clients store collections as per-app tags in sharedconfig.vdf
+ */
+async function readSharedConfigCollections(userPath: string): Promise<SteamCollection[]> {
+  const path = join(userPath, "7", "remote", "sharedconfig.vdf");
+  if (!existsSync(path)) return [];
+
+  const apps = vdfObject(await readVdfFile(path), "UserRoamingConfigStore", "Software", "Valve", "Steam", "apps");
+  const byTag = new Map<string, number[]>();
+  for (const [appid, app] of Object.entries(apps ?? {})) {
+    const tags = Object.values(vdfObject(app, "tags") ?? {}).filter((tag): tag is string => typeof tag === "string");
+    if (vdfString(app, "Hidden") === "1") tags.push(BUILT_IN_NAMES.hidden);
+    for (const tag of tags) {
+      byTag.set(tag, [...(byTag.get(tag) ?? []), Number(appid)]);
+    }
+  }
+  return Array.from(byTag.entries()).map(([name, appids]) => ({
+    id: name,
+    name: name === "favorite" ? BUILT_IN_NAMES.favorite : name,
+    appids,
+    dynamic: false,
+    resolvable: true,
+  }));
+}
+
+/**
+ * Read an account's collections, preferring the cloud storage format
+ */
+export async function getSteamCollections(steamPath: string, accountId: string): Promise<SteamCollection[]> {
+  const userPath = getUserdataPath(steamPath, accountId);
+  let collections: SteamCollection[] | undefined;
+  try {
+    collections = await readCloudStorageCollections(userPath);
+  } catch (error) {
+    console.error("Error reading cloud storage collections:", error);
+  }
+  if (!collections?.length) {
+    try {
+      collections = await readSharedConfigCollections(userPath);
+    } catch (error) {
+      console.error("Error reading sharedconfig.vdf:", error);
+    }
+  }
+  return (collections ?? []).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Decide whether an app belongs to a collection. Dynamic collections are evaluated
+ * against the name and whatever rules local data can answer: type, play state and features.
+ */
+export function isInCollection(collection: SteamCollection, app: CollectionApp): boolean {
+  if (!collection.dynamic) return app.appid !== undefined && collection.appids.includes(app.appid);
+  if (!collection.resolvable) return false;
+  if (app.appid !== undefined && collection.appids.includes(app.appid)) return true;
+  if (collection.searchText && !app.name?.toLowerCase().includes(collection.searchText.toLowerCase())) return false;
+  return (collection.filterGroups ?? []).every(({ kind, options, union }) =>
+    union
+      ? options.some((option) => matchesOption(kind, option, app))
+      : options.every((option) => matchesOption(kind, option, app)),
+  );
+}
@@ -0,0 +1,122 @@
+import { existsSync } from "fs";
+import { readdir, readFile } from "fs/promises";
+import { join } from "path";
+import { backupFile, writeFileAtomic } from "./safe-write";
+import type { SteamGame } from "./steam-library";
+import { ensureSteamClosed } from "./steam-process";
+import { patchVdf, readVdfFile, vdfObject, vdfString } from "./vdf";
+
+export interface CompatTool {
+  // Internal name, as stored in CompatToolMapping
+  name: string;
+  displayName: string;
+  // "custom" tools live in compatibilitytools.d, "steam" ones are installed like games
+  source: "custom" | "steam";
+  path: string;
+}
+
+const MAPPING_PATH = ["InstallConfigStore", "Software", "Valve", "Steam", "CompatToolMapping"];
+// The priority Steam uses for a per-game choice made in the game's properties
+const USER_MAPPING_PRIORITY = "250";
+
+export function getConfigPath(steamPath: string) {
+  return join(steamPath, "config", "config.vdf");
+}
+
+/**
+ * Valve's Proton builds are installed as apps, e.g. "Proton 9.0" is proton_9 and "Proton 6.3" is proton_63
+ */
+function protonInternalName(appName: string): string | undefined {
+  const match = appName.match(/^Proton (?:(\d+)\.(\d+)|(Experimental|Hotfix))$/i);
+  if (!match) return undefined;
+  if (match[3]) return `proton_${match[3].toLowerCase()}`;
+  return match[2] === "0" ? `proton_${match[1]}` : `proton_${match[1]}${match[2]}`;
+}
+
+/**
+ * Read the tools each compatibilitytools.d/<tool>/compatibilitytool.vdf declares
+ */
+async function getCustomCompatTools(steamPath: string): Promise<CompatTool[]> {
+  const toolsPath = join(steamPath, "compatibilitytools.d");
+  if (!existsSync(toolsPath)) return [];
+
+  const tools: CompatTool[] = [];
+  for (const dir of await readdir(toolsPath)) {
+    const manifestPath = join(toolsPath, dir, "compatibilitytool.vdf");
+    if (!existsSync(manifestPath)) continue;
+    try {
+      const compatTools = vdfObject(await readVdfFile(manifestPath), "compatibilitytools", "compat_tools") ?? {};
+      for (const [name, tool] of Object.entries(compatTools)) {
+        tools.push({
+          name,
+          displayName: vdfString(tool, "display_name") || name,
+          source: "custom",
+          path: join(toolsPath, dir),
+        });
+      }
+    } catch (error) {
+      console.error(`Error reading ${manifestPath}:`, error);
+    }
+  }
+  return tools;
+}
+
+/**
+ * List every compatibility tool available, custom builds first
+ */
+export async function getCompatTools(steamPath: string, games: SteamGame[]): Promise<CompatTool[]> {
+  let custom: CompatTool[] = [];
+  try {
+    custom = await getCustomCompatTools(steamPath);
+  } catch (error) {
+    console.error("Error reading compatibilitytools.d:", error);
+  }
+  const steam = games.flatMap((game): CompatTool[] => {
+    const name = protonInternalName(game.name);
+    return name ? [{ name, displayName: game.name, source: "steam", path: game.installDir }] : [];
+  });
+  return [
+    ...custom.sort((a, b) => b.displayName.localeCompare(a.displayName, undefined, { numeric: true })),
+    ...steam.sort((a, b) => b.displayName.localeCompare(a.displayName, undefined, { numeric: true })),
+  ];
+}
+
+/**
+ * Read which tool each app is forced to run with. Appid 0 is the default for all other titles.
+ */
+export async function getCompatToolMapping(steamPath: string): Promise<Map<number, string>> {
+  const mapping = new Map<number, string>();
+  const configPath = getConfigPath(steamPath);
+  if (!existsSync(configPath)) return mapping;
+  try {
+    const entries = vdfObject(await readVdfFile(configPath), ...MAPPING_PATH) ?? {};
+    for (const [appid, entry] of Object.entries(entries)) {
+      const name = vdfString(entry, "name");
+      if (name) mapping.set(Number(appid), name);
+    }
+  } catch (error) {
+    console.error("Error reading config.vdf:", error);
+  }
+  return mapping;
+}
+
+/**
+ * Force an app onto a tool, or pass undefined to clear the override.
+ * Refuses while Steam is running and backs config.vdf up before writing.
+ */
+export async function setCompatTool(steamPath: string, appid: number, toolName: string | undefined) {
+  await ensureSteamClosed();
+
+  const configPath = getConfigPath(steamPath);
+  const config = await readFile(configPath, "utf-8");
+  const updated = patchVdf(
+    config,
+    [...MAPPING_PATH, String(appid)],
+    toolName ? { name: toolName, config: "", priority: USER_MAPPING_PRIORITY } : undefined,
+    configPath,
+  );
+  if (updated === config) return;
+
+  await backupFile(configPath);
+  await writeFileAtomic(configPath, updated);
+}
@@ -0,0 +1,86 @@
+// SteamID64 of account id 0 in the public universe
+const STEAMID64_BASE = 76561197960265728n;
+const MAX_ACCOUNT_ID = 0xffffffff;
+
+export type SteamIdFormat = "steamid64" | "steamid2" | "steamid3" | "accountid" | "profile-url";
+
+export type ParsedSteamId =
+  | { kind: "id"; format: SteamIdFormat; accountId: number }
+  // Custom profile names, only the Steam API can turn these into an id
+  | { kind: "vanity"; vanity: string };
+
+export interface SteamIdFormats {
+  steamId64: string;
+  // STEAM_0:1:4491990
+  steamId2: string;
+  // [U:1:8983981]
+  steamId3: string;
+  accountId: string;
+  profileUrl: string;
+}
+
+export function accountIdToSteamId64(accountId: string | number): string {
+  return (BigInt(accountId) + STEAMID64_BASE).toString();
+}
+
+export function steamId64ToAccountId(steamId64: string): string {
+  return (BigInt(steamId64) - STEAMID64_BASE).toString();
+}
+
+const validAccountId = (accountId: number) =>
+  Number.isInteger(accountId) && accountId >= 0 && accountId <= MAX_ACCOUNT_ID;
+
+const idOf = (format: SteamIdFormat, accountId: number): ParsedSteamId | undefined =>
+  validAccountId(accountId) ? { kind: "id", format, accountId } : undefined;
+
+/**
+ * Recognise any of the ways people write a Steam ID: SteamID64, STEAM_0:1:..., [U:1:...],
+ * a bare account id, a profile URL or a custom (vanity) profile name
+ */
+export function parseSteamId(input: string): ParsedSteamId | undefined {
+  const value = input.trim();
+  if (!value) return undefined;
+
+  const url = value.match(/steamcommunity\.com\/(profiles|id)\/([^/?#\s]+)/i);
+  if (url) {
+    if (url[1].toLowerCase() === "id") return { kind: "vanity", vanity: decodeURIComponent(url[2]) };
+    const parsed = parseSteamId(url[2]);
+    return parsed?.kind === "id" ? { ...parsed, format: "profile-url" } : undefined;
+  }
+
+  if (/^\d{17}$/.test(value)) {
+    return idOf("steamid64", Number(BigInt(value) - STEAMID64_BASE));
+  }
+
+  // The universe digit is 0 in older games and 1 elsewhere, both mean the public universe
+  const steamId2 = value.match(/^STEAM_[0-5]:([01]):(\d+)$/i);
+  if (steamId2) return idOf("steamid2", Number(steamId2[2]) * 2 + Number(steamId2[1]));
+
+  const steamId3 = value.match(/^\[?U:1:(\d+)]?$/i);
+  if (steamId3) return idOf("steamid3", Number(steamId3[1]));
+
+  if (/^\d{1,10}$/.test(value)) return idOf("accountid", Number(value));
+
+  // Steam allows letters, digits, dashes and underscores in custom URLs
+  if (/^[\w-]{2,32}$/.test(value)) return { kind: "vanity", vanity: value };
+  return undefined;
+}
+
+export function formatSteamId(accountId: number): SteamIdFormats {
+  const steamId64 = accountIdToSteamId64(accountId);
+  return {
+    steamId64,
+    steamId2: `STEAM_0:${accountId & 1}:${Math.floor(accountId / 2)}`,
+    steamId3: `[U:1:${accountId}]`,
+    accountId: String(accountId),
+    profileUrl: `https://steamcommunity.com/profiles/${steamId64}`,
+  };
+}
+
+/**
+ * The SteamID64 for anything that doesn't need the network, undefined for vanity names
+ */
+export function toSteamId64(input: string): string | undefined {
+  const parsed = parseSteamId(input);
+  return parsed?.kind === "id" ? accountIdToSteamId64(parsed.accountId) : undefined;
+}
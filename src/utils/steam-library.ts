@@ -1,97 +1,244 @@
-import { exec } from "child_process";
-import { promisify } from "util";
-import { readFile, readdir } from "fs/promises";
+import { readdir, stat, statfs } from "fs/promises";
 import { existsSync } from "fs";
-import { join } from "path";
+import { basename, dirname, join, parse, resolve } from "path";
 import { platform } from "os";
-
-const execAsync = promisify(exec);
+import { getAppInfo, SteamAppInfo } from "./steam-appinfo";
+import { getGameStatus, SteamDownloadProgress, SteamGameStatus } from "./steam-app-state";
+import { getSteamPath } from "./steam-path";
+import { getSteamShortcuts, SteamShortcut } from "./steam-shortcuts";
+import { getDefaultAccount, getLocalAccounts, SteamAccount } from "./steam-accounts";
+import { getLocalAppStats, LocalAppStats } from "./steam-localconfig";
+import { CachedManifest, loadLibraryCache, saveLibraryCache } from "./library-cache";
+import { mapWithConcurrency } from "../lib/util";
+import { CompatTool, getCompatToolMapping, getCompatTools } from "./steam-compat";
+import { readVdfFile, VdfObject, vdfNumber, vdfObject, vdfString } from "./vdf";
+
+// Enough to keep a few drives busy without running out of file handles
+const MANIFEST_CONCURRENCY = 16;
+
+export interface SteamDepot {
+  depotId: number;
+  manifest: string;
+  size: number;
+}
 
 export interface SteamGame {
   appid: number;
   name: string;
   installDir: string;
+  libraryPath: string;
   sizeOnDisk: number;
   lastUpdated?: number;
+  lastPlayed?: number;
+  // Minutes, from the active account's localconfig.vdf
+  playtime?: number;
   state?: number;
+  status: SteamGameStatus;
+  download?: SteamDownloadProgress;
+  buildId?: number;
+  language?: string;
+  depots?: SteamDepot[];
+  appInfo?: SteamAppInfo;
+  // Internal name of the compatibility tool forced in the game's properties
+  compatTool?: string;
+}
+
+export interface SteamLibraryFolder {
+  path: string;
+  label?: string;
+  // appid -> size on disk, as recorded by Steam
+  apps: Record<number, number>;
+}
+
+export interface SteamLibraryFolderStats {
+  path: string;
+  label?: string;
+  // Drive letter on Windows, mount point elsewhere
+  drive: string;
+  freeSpace?: number;
+  totalSpace?: number;
+  gameCount: number;
+  size: number;
 }
 
 export interface SteamLibraryInfo {
+  // Accounts with data on this machine, and the one playtime and shortcuts were read for
+  accounts: SteamAccount[];
+  accountId?: string;
   games: SteamGame[];
+  shortcuts: SteamShortcut[];
+  folders: SteamLibraryFolderStats[];
+  compatTools: CompatTool[];
   totalSize: number;
   gameCount: number;
 }
 
 /**
- * Get Steam installation path from Windows Registry
+ * Parse libraryfolders.vdf to get all Steam library folders
  */
-async function getSteamPath(): Promise<string | null> {
-  // Only work on Windows
-  if (platform() !== "win32") {
-    throw new Error("Steam library browsing is only supported on Windows");
-  }
-
+export async function getSteamLibraryFolders(steamPath: string): Promise<SteamLibraryFolder[]> {
+  // Always include main Steam directory
+  const folders: SteamLibraryFolder[] = [{ path: steamPath, apps: {} }];
   try {
-    // Try both registry paths for Steam installation
-    const registryPaths = ["HKLM:\\SOFTWARE\\WOW6432Node\\Valve\\Steam", "HKLM:\\SOFTWARE\\Valve\\Steam"];
+    const libraryFoldersPath = join(steamPath, "steamapps", "libraryfolders.vdf");
 
-    for (const path of registryPaths) {
-      try {
-        const { stdout } = await execAsync(
-          `powershell -Command "Get-ItemProperty -Path '${path}' -Name 'InstallPath' | Select-Object -ExpandProperty InstallPath"`,
-        );
-        const steamPath = stdout.trim();
-        if (steamPath && existsSync(steamPath)) {
-          return steamPath;
-        }
-      } catch {
-        // Continue to next registry path
-        continue;
+    if (!existsSync(libraryFoldersPath)) {
+      return folders; // Fallback to main Steam directory
+    }
+
+    const data = await readVdfFile(libraryFoldersPath);
+    const root = vdfObject(data, "libraryfolders") ?? {};
+
+    for (const [key, entry] of Object.entries(root)) {
+      // Folders are keyed by index. Older clients store the path directly, newer ones a block with "path" and "apps"
+      if (!/^\d+$/.test(key)) continue;
+      const path = typeof entry === "string" ? entry : vdfString(entry, "path");
+      if (!path || !existsSync(path)) continue;
+
+      const apps: Record<number, number> = {};
+      for (const [appid, size] of Object.entries(vdfObject(entry, "apps") ?? {})) {
+        if (typeof size === "string") apps[Number(appid)] = Number(size) || 0;
+      }
+      const folder = { path, label: vdfString(entry, "label") || undefined, apps };
+
+      // The main Steam directory is listed here too, possibly spelled differently
+      const existing = folders.findIndex((f) => resolve(f.path) === resolve(path));
+      if (existing > -1) {
+        folders[existing] = { ...folder, path: folders[existing].path };
+      } else {
+        folders.push(folder);
       }
     }
-    return null;
+
+    return folders;
   } catch (error) {
-    console.error("Error getting Steam path:", error);
-    return null;
+    console.error("Error reading library folders:", error);
+    return folders;
   }
 }
 
 /**
- * Parse libraryfolders.vdf to get all Steam library paths
+ * Get all Steam library paths
  */
-async function getSteamLibraryPaths(steamPath: string): Promise<string[]> {
-  try {
-    const libraryFoldersPath = join(steamPath, "steamapps", "libraryfolders.vdf");
+export async function getSteamLibraryPaths(steamPath: string): Promise<string[]> {
+  const folders = await getSteamLibraryFolders(steamPath);
+  return folders.map((folder) => folder.path);
+}
 
-    if (!existsSync(libraryFoldersPath)) {
-      return [steamPath]; // Fallback to main Steam directory
+/**
+ * Find the drive (Windows) or mount point (elsewhere) a path lives on
+ */
+async function getDrive(path: string): Promise<string> {
+  if (platform() === "win32") return parse(resolve(path)).root;
+  let current = resolve(path);
+  try {
+    const { dev } = await stat(current);
+    while (current !== dirname(current)) {
+      const parent = dirname(current);
+      if ((await stat(parent)).dev !== dev) break;
+      current = parent;
     }
+  } catch {
+    // Fall back to whatever we resolved so far
+  }
+  return current;
+}
 
-    const content = await readFile(libraryFoldersPath, "utf-8");
-    const libraryPaths: string[] = [steamPath]; // Always include main Steam directory
-
-    // Parse VDF format to extract library paths
-    const pathMatches = content.match(/"path"\s+"([^"]+)"/g);
-    if (pathMatches) {
-      for (const match of pathMatches) {
-        const path = match.match(/"path"\s+"([^"]+)"/)?.[1];
-        if (path && existsSync(path)) {
-          libraryPaths.push(path);
-        }
+/**
+ * Collect disk space and game totals for each library folder
+ */
+async function getLibraryFolderStats(
+  folders: SteamLibraryFolder[],
+  games: SteamGame[],
+): Promise<SteamLibraryFolderStats[]> {
+  return Promise.all(
+    folders.map(async (folder) => {
+      const folderGames = games.filter((game) => game.libraryPath === folder.path);
+      const stats: SteamLibraryFolderStats = {
+        path: folder.path,
+        label: folder.label,
+        drive: await getDrive(folder.path),
+        gameCount: folderGames.length,
+        size: folderGames.reduce((sum, game) => sum + game.sizeOnDisk, 0),
+      };
+      try {
+        const { bsize, bavail, blocks } = await statfs(folder.path);
+        stats.freeSpace = bsize * bavail;
+        stats.totalSpace = bsize * blocks;
+      } catch (error) {
+        console.error(`Error reading disk space for ${folder.path}:`, error);
       }
-    }
+      return stats;
+    }),
+  );
+}
 
-    return libraryPaths;
-  } catch (error) {
-    console.error("Error reading library folders:", error);
-    return [steamPath];
-  }
+/**
+ * Build a SteamGame from a parsed appmanifest_*.acf
+ */
+function gameFromManifest(appid: number, libraryPath: string, manifest: VdfObject): SteamGame | undefined {
+  const appState = vdfObject(manifest, "AppState");
+  const name = vdfString(appState, "name");
+  const installDir = vdfString(appState, "installdir");
+  if (!name || !installDir) return undefined;
+
+  const depots: SteamDepot[] = Object.entries(vdfObject(appState, "InstalledDepots") ?? {}).map(([depotId, depot]) => ({
+    depotId: Number(depotId),
+    manifest: vdfString(depot, "manifest") ?? "",
+    size: vdfNumber(depot, "size") ?? 0,
+  }));
+
+  const state = vdfNumber(appState, "StateFlags");
+  const download: SteamDownloadProgress = {
+    bytesToDownload: vdfNumber(appState, "BytesToDownload") ?? 0,
+    bytesDownloaded: vdfNumber(appState, "BytesDownloaded") ?? 0,
+    bytesToStage: vdfNumber(appState, "BytesToStage") ?? 0,
+    bytesStaged: vdfNumber(appState, "BytesStaged") ?? 0,
+  };
+
+  return {
+    appid,
+    name,
+    installDir: join(libraryPath, "steamapps", "common", installDir),
+    libraryPath,
+    sizeOnDisk: vdfNumber(appState, "SizeOnDisk") ?? 0,
+    lastUpdated: vdfNumber(appState, "LastUpdated"),
+    lastPlayed: vdfNumber(appState, "LastPlayed") || undefined,
+    state,
+    status: getGameStatus(state),
+    download: download.bytesToDownload || download.bytesToStage ? download : undefined,
+    buildId: vdfNumber(appState, "buildid"),
+    language: vdfString(appState, "UserConfig", "language"),
+    depots,
+  };
+}
+
+/**
+ * Get the app id from an appmanifest_<appid>.acf path
+ */
+export function getManifestAppId(manifestPath: string): number | undefined {
+  const appidMatch = basename(manifestPath).match(/^appmanifest_(\d+)\.acf$/);
+  return appidMatch ? parseInt(appidMatch[1]) : undefined;
+}
+
+/**
+ * Parse a single appmanifest_*.acf. Returns undefined for system apps and incomplete manifests.
+ */
+export async function parseAppManifest(manifestPath: string, libraryPath: string): Promise<SteamGame | undefined> {
+  const appid = getManifestAppId(manifestPath);
+  if (appid === undefined) return undefined;
+
+  // Skip Steam itself and other system apps
+  if (appid === 228980 || appid === 7) return undefined;
+
+  const manifest = await readVdfFile(manifestPath);
+  return gameFromManifest(appid, libraryPath, manifest);
 }
 
 /**
- * Parse appmanifest_*.acf files to get installed games
+ * List the appmanifest_*.acf files in a library
  */
-async function parseAppManifests(libraryPath: string): Promise<SteamGame[]> {
+async function listAppManifests(libraryPath: string): Promise<string[]> {
   try {
     const steamappsPath = join(libraryPath, "steamapps");
     if (!existsSync(steamappsPath)) {
@@ -100,66 +247,61 @@ async function parseAppManifests(libraryPath: string): Promise<SteamGame[]> {
 
     // Use Node.js readdir instead of PowerShell to avoid carriage return issues
     const files = await readdir(steamappsPath);
-    const manifestFiles = files.filter((file) => file.startsWith("appmanifest_") && file.endsWith(".acf"));
-
-    const games: SteamGame[] = [];
+    return files
+      .filter((file) => file.startsWith("appmanifest_") && file.endsWith(".acf"))
+      .map((file) => join(steamappsPath, file));
+  } catch (error) {
+    console.error("Error listing app manifests:", error);
+    return [];
+  }
+}
 
-    for (const manifestFile of manifestFiles) {
-      try {
-        const manifestPath = join(steamappsPath, manifestFile);
-
-        // Check if file exists before trying to read it
-        if (!existsSync(manifestPath)) {
-          console.warn(`Manifest file not found: ${manifestPath}`);
-          continue;
-        }
-
-        const content = await readFile(manifestPath, "utf-8");
-
-        // Extract appid from filename
-        const appidMatch = manifestFile.match(/appmanifest_(\d+)\.acf/);
-        if (!appidMatch) continue;
-
-        const appid = parseInt(appidMatch[1]);
-
-        // Skip Steam itself and other system apps
-        if (appid === 228980 || appid === 7) continue;
-
-        // Parse VDF content to extract game info
-        const nameMatch = content.match(/"name"\s+"([^"]+)"/);
-        const installDirMatch = content.match(/"installdir"\s+"([^"]+)"/);
-        const sizeMatch = content.match(/"SizeOnDisk"\s+"(\d+)"/);
-        const lastUpdatedMatch = content.match(/"LastUpdated"\s+"(\d+)"/);
-        const stateMatch = content.match(/"StateFlags"\s+"(\d+)"/);
-
-        if (nameMatch && installDirMatch) {
-          const game: SteamGame = {
-            appid,
-            name: nameMatch[1],
-            installDir: join(libraryPath, "steamapps", "common", installDirMatch[1]),
-            sizeOnDisk: sizeMatch ? parseInt(sizeMatch[1]) : 0,
-            lastUpdated: lastUpdatedMatch ? parseInt(lastUpdatedMatch[1]) : undefined,
-            state: stateMatch ? parseInt(stateMatch[1]) : undefined,
-          };
-          games.push(game);
-        }
-      } catch (error) {
-        console.error(`Error parsing manifest ${manifestFile}:`, error);
-        continue;
+/**
+ * Parse appmanifest_*.acf files to get installed games. Manifests whose mtime
+ * and size match the cache are reused as-is, and the refreshed cache entries
+ * are written into `nextCache`.
+ */
+async function parseAppManifests(
+  manifests: { manifestPath: string; libraryPath: string }[],
+  cache: Record<string, CachedManifest>,
+  nextCache: Record<string, CachedManifest>,
+): Promise<SteamGame[]> {
+  const games = await mapWithConcurrency(manifests, MANIFEST_CONCURRENCY, async ({ manifestPath, libraryPath }) => {
+    try {
+      const { mtimeMs, size } = await stat(manifestPath);
+      const cached = cache[manifestPath];
+      // Callers add account-specific data to the games, so hand out copies and keep the cache to the manifest alone
+      if (cached && cached.mtimeMs === mtimeMs && cached.size === size) {
+        nextCache[manifestPath] = cached;
+        return cached.game && { ...cached.game };
       }
+
+      const game = await parseAppManifest(manifestPath, libraryPath);
+      nextCache[manifestPath] = { mtimeMs, size, game };
+      return game && { ...game };
+    } catch (error) {
+      console.error(`Error parsing manifest ${manifestPath}:`, error);
+      return undefined;
     }
+  });
+  return games.filter((game): game is SteamGame => game !== undefined);
+}
 
-    return games;
-  } catch (error) {
-    console.error("Error parsing app manifests:", error);
-    return [];
-  }
+/**
+ * Fold an account's localconfig.vdf playtime into a game. The manifest's LastPlayed
+ * isn't always written, so keep whichever is more recent. Without stats the account
+ * hasn't played it on this machine, and anything already there belongs to someone else.
+ */
+export function mergeLocalAppStats(game: SteamGame, stats?: LocalAppStats) {
+  game.playtime = stats?.playtime;
+  game.lastPlayed = stats ? Math.max(game.lastPlayed ?? 0, stats.lastPlayed ?? 0) || undefined : undefined;
 }
 
 /**
- * Get all installed Steam games
+ * Get all installed Steam games. Account-specific data (playtime, shortcuts)
+ * comes from the given account, or the default one.
  */
-export async function getInstalledSteamGames(): Promise<SteamLibraryInfo> {
+export async function getInstalledSteamGames(accountId?: string): Promise<SteamLibraryInfo> {
   try {
     const steamPath = await getSteamPath();
     if (!steamPath) {
@@ -167,32 +309,67 @@ export async function getInstalledSteamGames(): Promise<SteamLibraryInfo> {
     }
 
     console.log(`Steam path found: ${steamPath}`);
-    const libraryPaths = await getSteamLibraryPaths(steamPath);
+    const libraryFolders = await getSteamLibraryFolders(steamPath);
+    const libraryPaths = libraryFolders.map((folder) => folder.path);
     console.log(`Library paths found: ${libraryPaths.join(", ")}`);
 
-    const allGames: SteamGame[] = [];
-
-    for (const libraryPath of libraryPaths) {
-      console.log(`Scanning library: ${libraryPath}`);
-      const games = await parseAppManifests(libraryPath);
-      console.log(`Found ${games.length} games in ${libraryPath}`);
-      allGames.push(...games);
+    const manifestLists = await Promise.all(
+      libraryPaths.map(async (libraryPath) => {
+        const manifestPaths = await listAppManifests(libraryPath);
+        console.log(`Found ${manifestPaths.length} manifests in ${libraryPath}`);
+        return manifestPaths.map((manifestPath) => ({ manifestPath, libraryPath }));
+      }),
+    );
+
+    const cache = await loadLibraryCache();
+    const nextCache: Record<string, CachedManifest> = {};
+    const allGames = await parseAppManifests(manifestLists.flat(), cache.manifests, nextCache);
+
+    // Remove duplicates, keeping the first library a game was found in, and sort by name
+    const gamesByAppId = new Map<number, SteamGame>();
+    for (const game of allGames) {
+      if (!gamesByAppId.has(game.appid)) gamesByAppId.set(game.appid, game);
     }
+    const uniqueGames = Array.from(gamesByAppId.values()).sort((a, b) => a.name.localeCompare(b.name));
+
+    console.log(`Total unique games found: ${uniqueGames.length}`);
 
-    // Remove duplicates and sort by name
-    const uniqueGames = allGames
-      .filter((game, index, self) => index === self.findIndex((g) => g.appid === game.appid))
-      .sort((a, b) => a.name.localeCompare(b.name));
+    // Fill in type, developer, categories etc. from Steam's local cache instead of the store api
+    // and playtime from the active account's localconfig.vdf instead of the Web API
+    const accounts = await getLocalAccounts(steamPath);
+    const account = accounts.find((a) => a.accountId === accountId) ?? (await getDefaultAccount(accounts));
+    const [appInfo, appStats, shortcuts, folders, compatTools, compatMapping] = await Promise.all([
+      getAppInfo(
+        steamPath,
+        uniqueGames.map((game) => game.appid),
+      ),
+      account ? getLocalAppStats(steamPath, account.accountId) : new Map<number, LocalAppStats>(),
+      getSteamShortcuts(steamPath, account?.accountId),
+      getLibraryFolderStats(libraryFolders, uniqueGames),
+      getCompatTools(steamPath, uniqueGames),
+      getCompatToolMapping(steamPath),
+    ]);
+    for (const game of uniqueGames) {
+      game.appInfo = appInfo.get(game.appid);
+      game.compatTool = compatMapping.get(game.appid);
+      if (account) mergeLocalAppStats(game, appStats.get(game.appid));
+    }
+    console.log(`Non-Steam shortcuts found: ${shortcuts.length}`);
 
     const totalSize = uniqueGames.reduce((sum, game) => sum + game.sizeOnDisk, 0);
 
-    console.log(`Total unique games found: ${uniqueGames.length}`);
-
-    return {
+    const library = {
+      accounts,
+      accountId: account?.accountId,
       games: uniqueGames,
+      shortcuts,
+      folders,
+      compatTools,
       totalSize,
       gameCount: uniqueGames.length,
     };
+    await saveLibraryCache({ manifests: nextCache, library });
+    return library;
   } catch (error) {
     console.error("Error getting installed Steam games:", error);
     throw error;
@@ -0,0 +1,94 @@
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { backupFile, writeFileAtomic } from "./safe-write";
+import { ensureSteamClosed } from "./steam-process";
+import { getUserdataPath } from "./steam-userdata";
+import { patchVdf, readVdfFile, VdfObject, vdfNumber, vdfObject, vdfString } from "./vdf";
+
+export interface LocalAppStats {
+  // Minutes, same unit as the Web API's playtime_forever
+  playtime?: number;
+  playtime2wks?: number;
+  // Unix timestamp
+  lastPlayed?: number;
+}
+
+/**
+ * Path to an account's localconfig.vdf
+ */
+export function getLocalConfigPath(steamPath: string, accountId: string): string {
+  return join(getUserdataPath(steamPath, accountId), "config", "localconfig.vdf");
+}
+
+/**
+ * Read an account's localconfig.vdf, or undefined if it doesn't have one
+ */
+export async function readLocalConfig(steamPath: string, accountId: string): Promise<VdfObject | undefined> {
+  const path = getLocalConfigPath(steamPath, accountId);
+  if (!existsSync(path)) return undefined;
+  return readVdfFile(path);
+}
+
+const APPS_PATH = ["UserLocalConfigStore", "Software", "Valve", "Steam", "apps"];
+
+/**
+ * The per-app block of localconfig.vdf, keyed by appid
+ */
+export function getLocalConfigApps(localConfig: VdfObject | undefined): VdfObject | undefined {
+  return vdfObject(localConfig, ...APPS_PATH);
+}
+
+/**
+ * Read per-app playtime and last played time for an account, without the Web API
+ */
+export async function getLocalAppStats(steamPath: string, accountId: string): Promise<Map<number, LocalAppStats>> {
+  const stats = new Map<number, LocalAppStats>();
+  try {
+    const apps = getLocalConfigApps(await readLocalConfig(steamPath, accountId));
+    for (const [appid, app] of Object.entries(apps ?? {})) {
+      if (typeof app !== "object") continue;
+      const entry: LocalAppStats = {
+        playtime: vdfNumber(app, "Playtime"),
+        playtime2wks: vdfNumber(app, "Playtime2wks"),
+        lastPlayed: vdfNumber(app, "LastPlayed") || undefined,
+      };
+      if (entry.playtime !== undefined || entry.lastPlayed !== undefined) {
+        stats.set(Number(appid), entry);
+      }
+    }
+  } catch (error) {
+    console.error("Error reading localconfig.vdf:", error);
+  }
+  return stats;
+}
+
+/**
+ * Read a game's launch options, empty when none are set
+ */
+export async function getLaunchOptions(steamPath: string, accountId: string, appid: number): Promise<string> {
+  const apps = getLocalConfigApps(await readLocalConfig(steamPath, accountId));
+  return vdfString(apps, String(appid), "LaunchOptions") ?? "";
+}
+
+/**
+ * Write a game's launch options, or clear them with an empty string.
+ * Refuses while Steam is running and backs localconfig.vdf up before writing.
+ */
+export async function setLaunchOptions(steamPath: string, accountId: string, appid: number, launchOptions: string) {
+  await ensureSteamClosed();
+
+  const path = getLocalConfigPath(steamPath, accountId);
+  const localConfig = await readFile(path, "utf-8");
+  // Keys match case-insensitively, so an existing "launchoptions" is updated rather than duplicated
+  const updated = patchVdf(
+    localConfig,
+    [...APPS_PATH, String(appid), "LaunchOptions"],
+    launchOptions || undefined,
+    path,
+  );
+  if (updated === localConfig) return;
+
+  await backupFile(path);
+  await writeFileAtomic(path, updated);
+}
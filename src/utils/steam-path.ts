@@ -0,0 +1,114 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+import { existsSync } from "fs";
+import { realpath } from "fs/promises";
+import { join } from "path";
+import { homedir, platform } from "os";
+import { getPreferenceValues } from "@raycast/api";
+
+const execAsync = promisify(exec);
+
+/**
+ * Candidate Steam install locations on Linux, in order of preference.
+ * Covers native packages, the Flatpak sandbox and the Snap package.
+ */
+function linuxSteamPaths(home: string): string[] {
+  return [
+    join(home, ".steam", "steam"),
+    join(home, ".steam", "root"),
+    join(home, ".local", "share", "Steam"),
+    join(home, ".var", "app", "com.valvesoftware.Steam", ".local", "share", "Steam"),
+    join(home, ".var", "app", "com.valvesoftware.Steam", "data", "Steam"),
+    join(home, "snap", "steam", "common", ".local", "share", "Steam"),
+  ];
+}
+
+/**
+ * Candidate Steam install locations on macOS
+ */
+function macSteamPaths(home: string): string[] {
+  return [join(home, "Library", "Application Support", "Steam")];
+}
+
+/**
+ * A Steam root is only useful to us if it has a steamapps folder
+ */
+function isSteamRoot(path: string): boolean {
+  return existsSync(join(path, "steamapps"));
+}
+
+/**
+ * Get Steam installation path from the Windows Registry
+ */
+async function getWindowsSteamPath(): Promise<string | null> {
+  // Try the machine-wide install paths first, then the per-user key Steam writes on launch
+  const registryPaths = [
+    { path: "HKLM:\\SOFTWARE\\WOW6432Node\\Valve\\Steam", name: "InstallPath" },
+    { path: "HKLM:\\SOFTWARE\\Valve\\Steam", name: "InstallPath" },
+    { path: "HKCU:\\SOFTWARE\\Valve\\Steam", name: "SteamPath" },
+  ];
+
+  for (const { path, name } of registryPaths) {
+    try {
+      const { stdout } = await execAsync(
+        `powershell -Command "Get-ItemProperty -Path '${path}' -Name '${name}' | Select-Object -ExpandProperty ${name}"`,
+      );
+      const steamPath = stdout.trim();
+      if (steamPath && existsSync(steamPath)) {
+        return steamPath;
+      }
+    } catch {
+      // Continue to next registry path
+      continue;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the first existing Steam root among the candidates, resolving symlinks
+ * (e.g. ~/.steam/steam usually points at ~/.local/share/Steam)
+ */
+async function findSteamRoot(candidates: string[]): Promise<string | null> {
+  for (const candidate of candidates) {
+    if (!isSteamRoot(candidate)) continue;
+    try {
+      return await realpath(candidate);
+    } catch {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the Steam installation path for the current platform.
+ * The "Steam path" preference, when set, always wins.
+ */
+export async function getSteamPath(): Promise<string | null> {
+  const { steamPath: override } = getPreferenceValues();
+  if (override?.trim()) {
+    const path = override.trim();
+    if (!isSteamRoot(path)) {
+      throw new Error(`No steamapps folder found in the configured Steam path: ${path}`);
+    }
+    return path;
+  }
+
+  const home = homedir();
+  try {
+    switch (platform()) {
+      case "win32":
+        return await getWindowsSteamPath();
+      case "darwin":
+        return await findSteamRoot(macSteamPaths(home));
+      case "linux":
+        return await findSteamRoot(linuxSteamPaths(home));
+    }
+  } catch (error) {
+    console.error("Error getting Steam path:", error);
+    return null;
+  }
+
+  throw new Error(`Steam library browsing is not supported on ${platform()}`);
+}
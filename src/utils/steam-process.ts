@@ -0,0 +1,201 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+import { existsSync } from "fs";
+import { join } from "path";
+import { homedir, platform } from "os";
+import { readVdfFile, vdfNumber, vdfObject } from "./vdf";
+import { isErrnoCode } from "../lib/util";
+
+const execAsync = promisify(exec);
+
+// Process names of the Steam client itself, not its helpers
+const STEAM_PROCESS_NAMES = ["steam", "steam.exe", "steam_osx"];
+
+/**
+ * Check the process list for the Steam client. Throws if the process list can't be read.
+ */
+export async function isSteamRunning(): Promise<boolean> {
+  if (platform() === "win32") {
+    const { stdout } = await execAsync('tasklist /FI "IMAGENAME eq steam.exe" /NH');
+    return stdout.toLowerCase().includes("steam.exe");
+  }
+  const { stdout } = await execAsync("ps -A -o comm=");
+  return stdout
+    .split("\n")
+    .map((line) => line.trim().split("/").pop()?.toLowerCase())
+    .some((name) => name !== undefined && STEAM_PROCESS_NAMES.includes(name));
+}
+
+/**
+ * Steam rewrites its config files on exit, so anything we write while it runs gets lost.
+ * Throws unless we're sure Steam is closed.
+ */
+export async function ensureSteamClosed() {
+  let running: boolean;
+  try {
+    running = await isSteamRunning();
+  } catch (error) {
+    console.error("Error checking for Steam process:", error);
+    throw new Error("Could not check whether Steam is running");
+  }
+  if (running) {
+    throw new Error("Close Steam first, it overwrites this file when it exits");
+  }
+}
+
+/**
+ * Poll until the Steam client has exited. False if it's still running after the timeout.
+ */
+export async function waitForSteamToExit(timeout = 20_000, interval = 1_000): Promise<boolean> {
+  const deadline = Date.now() + timeout;
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, interval));
+    if (!(await isSteamRunning())) return true;
+  }
+  return false;
+}
+
+/**
+ * Where Steam mirrors its HKCU keys outside Windows. Linux keeps it next to the ~/.steam symlinks.
+ */
+function registryVdfPaths(steamPath: string): string[] {
+  const home = homedir();
+  return [
+    join(home, ".steam", "registry.vdf"),
+    join(home, ".var", "app", "com.valvesoftware.Steam", ".steam", "registry.vdf"),
+    join(steamPath, "registry.vdf"),
+  ];
+}
+
+export function findRegistryVdf(steamPath: string): string | undefined {
+  return registryVdfPaths(steamPath).find((path) => existsSync(path));
+}
+
+export interface SteamClientState {
+  running: boolean;
+  // The game Steam reports as running, if any
+  runningAppId?: number;
+}
+
+interface SteamRegistryState {
+  // Process id of the client, 0 once it has exited
+  pid?: number;
+  runningAppId?: number;
+}
+
+/**
+ * One reg query for both keys, starting powershell for each value took seconds
+ */
+async function readWindowsRegistry(): Promise<SteamRegistryState> {
+  const { stdout } = await execAsync('reg query "HKCU\\SOFTWARE\\Valve\\Steam" /s');
+  const state: SteamRegistryState = {};
+  let key = "";
+  for (const line of stdout.split(/\r?\n/)) {
+    if (line.startsWith("HKEY_")) {
+      key = line.trim().toLowerCase();
+      continue;
+    }
+    // e.g. "    RunningAppID    REG_DWORD    0x26c"
+    const match = line.match(/^\s+(\S+)\s+REG_DWORD\s+0x([0-9a-f]+)/i);
+    if (!match) continue;
+    const name = match[1].toLowerCase();
+    if (key.endsWith("\\valve\\steam\\activeprocess") && name === "pid") state.pid = parseInt(match[2], 16);
+    if (key.endsWith("\\valve\\steam") && name === "runningappid") state.runningAppId = parseInt(match[2], 16);
+  }
+  return state;
+}
+
+/**
+ * Read the keys Steam keeps up to date while it runs. Throws if they can't be read.
+ */
+async function readSteamRegistry(steamPath: string): Promise<SteamRegistryState> {
+  if (platform() === "win32") return readWindowsRegistry();
+  const registryPath = findRegistryVdf(steamPath);
+  if (!registryPath) throw new Error("Steam registry.vdf not found");
+  const steam = vdfObject(await readVdfFile(registryPath), "Registry", "HKCU", "Software", "Valve", "Steam");
+  return { pid: vdfNumber(steam, "ActiveProcess", "pid"), runningAppId: vdfNumber(steam, "RunningAppID") };
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    // EPERM means it exists but belongs to someone else
+    return isErrnoCode(e, "EPERM");
+  }
+}
+
+/**
+ * Games Steam launches on Linux run under its reaper, e.g. "reaper SteamLaunch AppId=620 -- ..."
+ */
+async function findLinuxGameProcesses(appid?: number): Promise<{ pid: number; appid: number }[]> {
+  const { stdout } = await execAsync("ps -A -o pid=,args=");
+  return stdout.split("\n").flatMap((line) => {
+    const match = line.match(/^\s*(\d+)\s+\S*reaper\s+SteamLaunch\s+AppId=(\d+)/);
+    if (!match || (appid !== undefined && Number(match[2]) !== appid)) return [];
+    return [{ pid: Number(match[1]), appid: Number(match[2]) }];
+  });
+}
+
+let registryErrorLogged = false;
+
+/**
+ * Work out whether Steam is running and which game it's running. The registry is the
+ * source of truth, the process list is the fallback when it can't be read. Throws if neither can.
+ */
+export async function getSteamClientState(steamPath: string): Promise<SteamClientState> {
+  let registry: SteamRegistryState | undefined;
+  try {
+    registry = await readSteamRegistry(steamPath);
+    registryErrorLogged = false;
+  } catch (error) {
+    // This runs on every poll, one log per failure streak is plenty
+    if (!registryErrorLogged) console.error("Error reading Steam registry:", error);
+    registryErrorLogged = true;
+  }
+
+  // A crashed client leaves its pid behind, so check the process is still there
+  const running =
+    registry?.pid !== undefined ? registry.pid > 0 && isProcessAlive(registry.pid) : await isSteamRunning();
+  if (!running) return { running: false };
+
+  let runningAppId = registry?.runningAppId || undefined;
+  if (!registry && platform() === "linux") {
+    runningAppId = (await findLinuxGameProcesses())[0]?.appid;
+  }
+  return { running, runningAppId };
+}
+
+/**
+ * Only Linux launches games under a process we can find again
+ */
+export const canExitGame = () => platform() === "linux";
+
+/**
+ * Ask a running game to quit, the way Steam's own Stop button does
+ */
+export async function exitGame(appid: number) {
+  if (!canExitGame()) throw new Error("Exiting games is only supported on Linux");
+  const processes = await findLinuxGameProcesses(appid);
+  if (!processes.length) throw new Error("Game process not found");
+  for (const { pid } of processes) {
+    process.kill(pid, "SIGTERM");
+  }
+}
+
+/**
+ * Throws unless we're sure the given game isn't running
+ */
+export async function ensureGameClosed(steamPath: string, appid: number) {
+  let state: SteamClientState;
+  try {
+    state = await getSteamClientState(steamPath);
+  } catch (error) {
+    console.error("Error checking for running game:", error);
+    throw new Error("Could not check whether the game is running");
+  }
+  if (state.runningAppId === appid) {
+    throw new Error("Quit the game first");
+  }
+}
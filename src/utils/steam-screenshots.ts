@@ -0,0 +1,89 @@
+import { existsSync } from "fs";
+import { readdir, rm, stat } from "fs/promises";
+import { join } from "path";
+import { getUserdataPath } from "./steam-userdata";
+
+export interface SteamScreenshot {
+  path: string;
+  // Steam writes a smaller copy for its own screenshot manager
+  thumbnail?: string;
+  appid: number;
+  // Milliseconds since the epoch
+  capturedAt: number;
+  size: number;
+}
+
+export interface ScreenshotGame {
+  appid: number;
+  // Newest first
+  screenshots: SteamScreenshot[];
+}
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png)$/i;
+
+/**
+ * Screenshots live in userdata/<accountId>/760/remote/<appid>/screenshots
+ */
+export function getScreenshotsPath(steamPath: string, accountId: string): string {
+  return join(getUserdataPath(steamPath, accountId), "760", "remote");
+}
+
+/**
+ * Steam names screenshots after the local capture time, e.g. 20240501183045_1.jpg
+ */
+function parseCaptureDate(fileName: string): number | undefined {
+  const match = fileName.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})_/);
+  if (!match) return undefined;
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  return Number.isNaN(date.getTime()) ? undefined : date.getTime();
+}
+
+async function readScreenshotFolder(folderPath: string, appid: number): Promise<SteamScreenshot[]> {
+  const thumbnailsPath = join(folderPath, "thumbnails");
+  const fileNames = (await readdir(folderPath)).filter((name) => IMAGE_EXTENSIONS.test(name));
+  const screenshots = await Promise.all(
+    fileNames.map(async (fileName) => {
+      const path = join(folderPath, fileName);
+      const stats = await stat(path);
+      const thumbnail = join(thumbnailsPath, fileName);
+      return {
+        path,
+        thumbnail: existsSync(thumbnail) ? thumbnail : undefined,
+        appid,
+        capturedAt: parseCaptureDate(fileName) ?? stats.mtimeMs,
+        size: stats.size,
+      };
+    }),
+  );
+  return screenshots.sort((a, b) => b.capturedAt - a.capturedAt);
+}
+
+/**
+ * List every game the account has local screenshots for, most recently captured first
+ */
+export async function getScreenshots(steamPath: string, accountId: string): Promise<ScreenshotGame[]> {
+  const remotePath = getScreenshotsPath(steamPath, accountId);
+  if (!existsSync(remotePath)) return [];
+
+  const games: ScreenshotGame[] = [];
+  for (const dir of await readdir(remotePath)) {
+    const folderPath = join(remotePath, dir, "screenshots");
+    if (!/^\d+$/.test(dir) || !existsSync(folderPath)) continue;
+    try {
+      const screenshots = await readScreenshotFolder(folderPath, Number(dir));
+      if (screenshots.length) games.push({ appid: Number(dir), screenshots });
+    } catch (error) {
+      console.error(`Error reading ${folderPath}:`, error);
+    }
+  }
+  return games.sort((a, b) => b.screenshots[0].capturedAt - a.screenshots[0].capturedAt);
+}
+
+/**
+ * Delete a screenshot and its thumbnail
+ */
+export async function deleteScreenshot(screenshot: SteamScreenshot) {
+  await rm(screenshot.path, { force: true });
+  if (screenshot.thumbnail) await rm(screenshot.thumbnail, { force: true });
+}
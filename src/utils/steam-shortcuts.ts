@@ -0,0 +1,110 @@
+import { existsSync } from "fs";
+import { join } from "path";
+import { crc32 } from "./crc32";
+import { BinaryVdfValue, binaryVdfGet, readShortcutsFile } from "./binary-vdf";
+import { getLocalAccountIds, getUserdataPath } from "./steam-userdata";
+
+export interface SteamShortcut {
+  // 32-bit shortcut app id, as used for grid artwork and userdata folders
+  appid: number;
+  // 64-bit game id, as used by steam://rungameid/
+  gameId: string;
+  name: string;
+  exe: string;
+  startDir: string;
+  launchOptions: string;
+  icon?: string;
+  tags: string[];
+  lastPlayed?: number;
+  hidden: boolean;
+  // userdata/<accountId> the shortcut was read from
+  accountId: string;
+}
+
+/**
+ * Compute a shortcut's app id the way Steam does: CRC32 of the quoted exe and
+ * the name, with the top bit set
+ */
+export function getShortcutAppId(exe: string, name: string): number {
+  return (crc32(exe + name) | 0x80000000) >>> 0;
+}
+
+/**
+ * The 64-bit game id is the app id in the high half with the "shortcut" type in the low half
+ */
+export function getShortcutGameId(appid: number): string {
+  return ((BigInt(appid >>> 0) << 32n) | 0x02000000n).toString();
+}
+
+const asString = (value: BinaryVdfValue | undefined) =>
+  typeof value === "string" || typeof value === "number" ? String(value) : "";
+
+const unquote = (value: string) => value.replace(/^"(.*)"$/, "$1");
+
+/**
+ * Steam writes custom icons either into the shortcut itself or the user's grid folder
+ */
+function findShortcutIcon(userPath: string, appid: number, icon: string): string | undefined {
+  if (icon && existsSync(icon)) return icon;
+  for (const extension of ["png", "jpg", "ico"]) {
+    const gridIcon = join(userPath, "config", "grid", `${appid}_icon.${extension}`);
+    if (existsSync(gridIcon)) return gridIcon;
+  }
+  return undefined;
+}
+
+/**
+ * Read one user's shortcuts.vdf
+ */
+async function parseUserShortcuts(userPath: string, accountId: string): Promise<SteamShortcut[]> {
+  const shortcutsPath = join(userPath, "config", "shortcuts.vdf");
+  if (!existsSync(shortcutsPath)) return [];
+
+  const entries = await readShortcutsFile(shortcutsPath);
+  return entries.map((entry) => {
+    const name = asString(binaryVdfGet(entry, "AppName"));
+    const exe = asString(binaryVdfGet(entry, "Exe"));
+    const storedId = binaryVdfGet(entry, "appid");
+    // Older clients didn't store the id, so fall back to computing it
+    const appid = typeof storedId === "number" ? storedId >>> 0 : getShortcutAppId(exe, name);
+    const tags = binaryVdfGet(entry, "tags");
+    const lastPlayed = Number(binaryVdfGet(entry, "LastPlayTime"));
+
+    return {
+      appid,
+      gameId: getShortcutGameId(appid),
+      name,
+      exe: unquote(exe),
+      startDir: unquote(asString(binaryVdfGet(entry, "StartDir"))),
+      launchOptions: asString(binaryVdfGet(entry, "LaunchOptions")),
+      icon: findShortcutIcon(userPath, appid, unquote(asString(binaryVdfGet(entry, "icon")))),
+      tags: typeof tags === "object" ? Object.values(tags).map(asString).filter(Boolean) : [],
+      lastPlayed: lastPlayed > 0 ? lastPlayed : undefined,
+      hidden: Number(binaryVdfGet(entry, "IsHidden")) === 1,
+      accountId,
+    };
+  });
+}
+
+/**
+ * Get the non-Steam games added by one account, or every local account without duplicates
+ */
+export async function getSteamShortcuts(steamPath: string, accountId?: string): Promise<SteamShortcut[]> {
+  const shortcuts = new Map<string, SteamShortcut>();
+  const accountIds = accountId ? [accountId] : await getLocalAccountIds(steamPath);
+
+  for (const id of accountIds) {
+    try {
+      const userShortcuts = await parseUserShortcuts(getUserdataPath(steamPath, id), id);
+      for (const shortcut of userShortcuts) {
+        if (shortcut.name && !shortcut.hidden && !shortcuts.has(shortcut.gameId)) {
+          shortcuts.set(shortcut.gameId, shortcut);
+        }
+      }
+    } catch (error) {
+      console.error(`Error reading shortcuts for user ${id}:`, error);
+    }
+  }
+
+  return Array.from(shortcuts.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
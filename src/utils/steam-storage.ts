@@ -0,0 +1,96 @@
+import { existsSync } from "fs";
+import { lstat, readdir, rm } from "fs/promises";
+import { join } from "path";
+import { SteamGame } from "./steam-library";
+import { readVdfFile, vdfNumber, vdfObject } from "./vdf";
+
+export interface StorageEntry {
+  path: string;
+  size: number;
+  exists: boolean;
+}
+
+export interface GameStorage {
+  install: StorageEntry;
+  workshop: StorageEntry & { itemCount: number };
+  // Proton prefix, Linux only
+  compatdata: StorageEntry;
+  shadercache: StorageEntry;
+  total: number;
+}
+
+/**
+ * Total size of every file under a folder. Symlinks are not followed, Proton prefixes are full of them.
+ */
+export async function getDirectorySize(path: string): Promise<number> {
+  let total = 0;
+  try {
+    const entries = await readdir(path, { withFileTypes: true });
+    for (const entry of entries) {
+      const entryPath = join(path, entry.name);
+      if (entry.isDirectory()) {
+        total += await getDirectorySize(entryPath);
+      } else if (entry.isFile()) {
+        total += (await lstat(entryPath)).size;
+      }
+    }
+  } catch (error) {
+    console.error(`Error reading ${path}:`, error);
+  }
+  return total;
+}
+
+async function getStorageEntry(path: string): Promise<StorageEntry> {
+  const exists = existsSync(path);
+  return { path, exists, size: exists ? await getDirectorySize(path) : 0 };
+}
+
+/**
+ * Read the number of subscribed items and their recorded size from appworkshop_<appid>.acf
+ */
+async function readWorkshopManifest(steamappsPath: string, appid: number) {
+  const manifestPath = join(steamappsPath, "workshop", `appworkshop_${appid}.acf`);
+  if (!existsSync(manifestPath)) return undefined;
+  try {
+    const workshop = vdfObject(await readVdfFile(manifestPath), "AppWorkshop");
+    const details = vdfObject(workshop, "WorkshopItemDetails") ?? vdfObject(workshop, "WorkshopItemsInstalled") ?? {};
+    return { itemCount: Object.keys(details).length, size: vdfNumber(workshop, "SizeOnDisk") };
+  } catch (error) {
+    console.error(`Error parsing ${manifestPath}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Work out everything a game takes up on disk, not just its install folder
+ */
+export async function getGameStorage(game: SteamGame): Promise<GameStorage> {
+  const steamappsPath = join(game.libraryPath, "steamapps");
+  const [workshopManifest, workshop, compatdata, shadercache] = await Promise.all([
+    readWorkshopManifest(steamappsPath, game.appid),
+    getStorageEntry(join(steamappsPath, "workshop", "content", String(game.appid))),
+    getStorageEntry(join(steamappsPath, "compatdata", String(game.appid))),
+    getStorageEntry(join(steamappsPath, "shadercache", String(game.appid))),
+  ]);
+
+  const install = { path: game.installDir, exists: existsSync(game.installDir), size: game.sizeOnDisk };
+  return {
+    install,
+    workshop: {
+      ...workshop,
+      // Fall back to Steam's own number when the content folder is missing or unreadable
+      size: workshop.size || workshopManifest?.size || 0,
+      itemCount: workshopManifest?.itemCount ?? 0,
+    },
+    compatdata,
+    shadercache,
+    total: install.size + (workshop.size || workshopManifest?.size || 0) + compatdata.size + shadercache.size,
+  };
+}
+
+/**
+ * Delete a game's shader cache. Steam rebuilds it on next launch.
+ */
+export async function clearShaderCache(game: SteamGame) {
+  await rm(join(game.libraryPath, "steamapps", "shadercache", String(game.appid)), { recursive: true, force: true });
+}
@@ -0,0 +1,25 @@
+import { existsSync } from "fs";
+import { readdir } from "fs/promises";
+import { join } from "path";
+
+/**
+ * userdata/ holds one folder per local account, named by its 32-bit account id
+ */
+export function getUserdataPath(steamPath: string, accountId?: string): string {
+  return accountId ? join(steamPath, "userdata", accountId) : join(steamPath, "userdata");
+}
+
+/**
+ * List the account ids that have a userdata folder
+ */
+export async function getLocalAccountIds(steamPath: string): Promise<string[]> {
+  const userdataPath = getUserdataPath(steamPath);
+  if (!existsSync(userdataPath)) return [];
+  try {
+    // "0" is used by Steam for data not tied to an account
+    return (await readdir(userdataPath)).filter((dir) => /^\d+$/.test(dir) && dir !== "0");
+  } catch (error) {
+    console.error("Error reading userdata:", error);
+    return [];
+  }
+}
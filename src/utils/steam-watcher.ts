@@ -0,0 +1,113 @@
+import { existsSync, FSWatcher, watch } from "fs";
+import { basename, dirname, join } from "path";
+import { getManifestAppId, parseAppManifest, SteamGame } from "./steam-library";
+import { findRegistryVdf } from "./steam-process";
+
+export interface ManifestChange {
+  manifestPath: string;
+  libraryPath: string;
+}
+
+export interface ManifestUpdate {
+  appid: number;
+  libraryPath: string;
+  // Undefined when the manifest was removed, i.e. the game was uninstalled or moved
+  game?: SteamGame;
+}
+
+/**
+ * Watch the steamapps folder of every library for appmanifest_*.acf changes.
+ * Steam rewrites a manifest many times while downloading, so changes are
+ * collected and reported together once things go quiet for `delay` ms.
+ * Returns a function that stops watching.
+ */
+export function watchSteamLibraries(
+  libraryPaths: string[],
+  onChange: (changes: ManifestChange[]) => void,
+  delay = 1000,
+): () => void {
+  const pending = new Map<string, ManifestChange>();
+  let timer: NodeJS.Timeout | undefined;
+
+  const flush = () => {
+    timer = undefined;
+    const changes = Array.from(pending.values());
+    pending.clear();
+    if (changes.length) onChange(changes);
+  };
+
+  const watchers: FSWatcher[] = [];
+  for (const libraryPath of libraryPaths) {
+    const steamappsPath = join(libraryPath, "steamapps");
+    try {
+      const watcher = watch(steamappsPath, (_event, filename) => {
+        const file = filename?.toString();
+        if (!file || !/^appmanifest_\d+\.acf$/.test(file)) return;
+        const manifestPath = join(steamappsPath, file);
+        pending.set(manifestPath, { manifestPath, libraryPath });
+        clearTimeout(timer);
+        timer = setTimeout(flush, delay);
+      });
+      watcher.on("error", (error) => console.error(`Stopped watching ${steamappsPath}:`, error));
+      watchers.push(watcher);
+    } catch (error) {
+      // Network drives and some FUSE mounts don't support watching, the manual refresh covers those
+      console.error(`Could not watch ${steamappsPath}:`, error);
+    }
+  }
+
+  return () => {
+    clearTimeout(timer);
+    watchers.forEach((watcher) => watcher.close());
+  };
+}
+
+/**
+ * Call onChange when Steam rewrites registry.vdf, which it does as it starts, exits and
+ * launches games. Windows keeps these in the real registry, so there's nothing to watch there.
+ * Returns a function that stops watching.
+ */
+export function watchSteamRegistry(steamPath: string, onChange: () => void, delay = 250): () => void {
+  const registryPath = findRegistryVdf(steamPath);
+  if (!registryPath) return () => undefined;
+
+  let timer: NodeJS.Timeout | undefined;
+  let watcher: FSWatcher | undefined;
+  try {
+    // Watch the folder, Steam replaces the file rather than writing into it
+    watcher = watch(dirname(registryPath), (_event, filename) => {
+      if (filename?.toString() !== basename(registryPath)) return;
+      clearTimeout(timer);
+      timer = setTimeout(onChange, delay);
+    });
+    watcher.on("error", (error) => console.error(`Stopped watching ${registryPath}:`, error));
+  } catch (error) {
+    console.error(`Could not watch ${registryPath}:`, error);
+  }
+
+  return () => {
+    clearTimeout(timer);
+    watcher?.close();
+  };
+}
+
+/**
+ * Re-parse only the manifests that changed
+ */
+export async function readManifestChanges(changes: ManifestChange[]): Promise<ManifestUpdate[]> {
+  const updates = await Promise.all(
+    changes.map(async ({ manifestPath, libraryPath }): Promise<ManifestUpdate | undefined> => {
+      const appid = getManifestAppId(manifestPath);
+      if (appid === undefined) return undefined;
+      try {
+        const game = existsSync(manifestPath) ? await parseAppManifest(manifestPath, libraryPath) : undefined;
+        return { appid, libraryPath, game };
+      } catch (error) {
+        // Usually a manifest caught mid-write, the next change event will pick it up
+        console.error(`Error parsing manifest ${manifestPath}:`, error);
+        return undefined;
+      }
+    }),
+  );
+  return updates.filter((update): update is ManifestUpdate => update !== undefined);
+}
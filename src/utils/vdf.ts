@@ -0,0 +1,449 @@
+import { readFile } from "fs/promises";
+import { dirname, resolve } from "path";
+
+/**
+ * Parser for Valve's text KeyValues format, used by libraryfolders.vdf,
+ * appmanifest_*.acf, localconfig.vdf, loginusers.vdf and friends.
+ *
+ * "key" "value"
+ * "key" { "nested" "value" }
+ */
+
+export type VdfValue = string | VdfObject;
+export interface VdfObject {
+  [key: string]: VdfValue;
+}
+
+export type VdfDirective = {
+  type: "include" | "base";
+  path: string;
+};
+
+export class VdfSyntaxError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number, filename?: string) {
+    super(`${filename ? filename + ":" : ""}${line}:${column}: ${message}`);
+    this.name = "VdfSyntaxError";
+    this.line = line;
+    this.column = column;
+  }
+}
+
+// start and end are offsets into the text, so edits can be patched in without rewriting the rest
+type Position = { line: number; column: number; start: number; end: number };
+
+type Token =
+  | ({ type: "string"; value: string } & Position)
+  | ({ type: "open" | "close" } & Position)
+  | ({ type: "condition"; value: string } & Position)
+  | ({ type: "directive"; value: VdfDirective["type"] } & Position);
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", "\\": "\\", '"': '"' };
+
+/**
+ * Split KeyValues text into tokens, tracking line and column for error reporting
+ */
+function tokenize(text: string, filename?: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = () => {
+    if (text[i] === "\n") {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+    i++;
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (/\s/.test(char) || char === "\uFEFF") {
+      advance();
+      continue;
+    }
+
+    // Line comments
+    if (char === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") advance();
+      continue;
+    }
+
+    // Block comments aren't part of the format, but show up in hand-edited files
+    if (char === "/" && text[i + 1] === "*") {
+      const start = { line, column };
+      advance();
+      advance();
+      while (i < text.length && !(text[i] === "*" && text[i + 1] === "/")) advance();
+      if (i >= text.length) throw new VdfSyntaxError("Unterminated comment", start.line, start.column, filename);
+      advance();
+      advance();
+      continue;
+    }
+
+    if (char === "{" || char === "}") {
+      tokens.push({ type: char === "{" ? "open" : "close", line, column, start: i, end: i + 1 });
+      advance();
+      continue;
+    }
+
+    // Platform conditionals like [$WIN32] or [!$X360]
+    if (char === "[") {
+      const start = { line, column, start: i };
+      let value = "";
+      advance();
+      while (i < text.length && text[i] !== "]" && text[i] !== "\n") {
+        value += text[i];
+        advance();
+      }
+      if (text[i] !== "]") throw new VdfSyntaxError("Unterminated conditional", start.line, start.column, filename);
+      advance();
+      tokens.push({ type: "condition", value, ...start, end: i });
+      continue;
+    }
+
+    if (char === '"') {
+      const start = { line, column, start: i };
+      let value = "";
+      advance();
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === "\\" && i + 1 < text.length) {
+          const escaped = ESCAPES[text[i + 1]];
+          if (escaped !== undefined) {
+            value += escaped;
+            advance();
+            advance();
+            continue;
+          }
+        }
+        value += text[i];
+        advance();
+      }
+      if (i >= text.length) throw new VdfSyntaxError("Unterminated string", start.line, start.column, filename);
+      advance();
+      tokens.push({ type: "string", value, ...start, end: i });
+      continue;
+    }
+
+    // Unquoted tokens run until whitespace or a structural character
+    const start = { line, column, start: i };
+    let value = "";
+    while (i < text.length && !/[\s{}"]/.test(text[i])) {
+      value += text[i];
+      advance();
+    }
+    if (value === "#include" || value === "#base") {
+      tokens.push({ type: "directive", value: value === "#include" ? "include" : "base", ...start, end: i });
+    } else {
+      tokens.push({ type: "string", value, ...start, end: i });
+    }
+  }
+
+  return tokens;
+}
+
+function createObject(): VdfObject {
+  // Keys come from files on disk, so avoid a prototype that "__proto__" could clobber
+  return Object.create(null) as VdfObject;
+}
+
+/**
+ * Merge source into target. Nested objects with the same key are merged,
+ * strings are overwritten unless keepExisting is set.
+ */
+function mergeInto(target: VdfObject, source: VdfObject, keepExisting = false) {
+  for (const [key, value] of Object.entries(source)) {
+    const existing = target[key];
+    if (typeof existing === "object" && typeof value === "object") {
+      mergeInto(existing, value, keepExisting);
+    } else if (existing === undefined || !keepExisting) {
+      target[key] = value;
+    }
+  }
+}
+
+/**
+ * Parse KeyValues text into a nested object, returning any #include/#base directives found
+ */
+export function parseVdfDocument(text: string, filename?: string): { data: VdfObject; directives: VdfDirective[] } {
+  const tokens = tokenize(text, filename);
+  const directives: VdfDirective[] = [];
+  let pos = 0;
+
+  const skipConditional = () => {
+    if (tokens[pos]?.type === "condition") pos++;
+  };
+
+  const parseBlock = (depth: number): VdfObject => {
+    const object = createObject();
+    while (pos < tokens.length) {
+      const token = tokens[pos];
+
+      if (token.type === "close") {
+        if (depth === 0) throw new VdfSyntaxError("Unexpected '}'", token.line, token.column, filename);
+        pos++;
+        return object;
+      }
+
+      if (token.type === "directive") {
+        const path = tokens[pos + 1];
+        if (depth > 0 || path?.type !== "string") {
+          throw new VdfSyntaxError(`Invalid #${token.value} directive`, token.line, token.column, filename);
+        }
+        directives.push({ type: token.value, path: path.value });
+        pos += 2;
+        continue;
+      }
+
+      if (token.type !== "string") {
+        throw new VdfSyntaxError("Expected a key", token.line, token.column, filename);
+      }
+      const key = token.value;
+      pos++;
+      skipConditional();
+
+      const next = tokens[pos];
+      if (!next) throw new VdfSyntaxError(`Missing value for "${key}"`, token.line, token.column, filename);
+
+      if (next.type === "open") {
+        pos++;
+        const child = parseBlock(depth + 1);
+        skipConditional();
+        const existing = object[key];
+        // Repeated blocks are merged rather than replaced, matching how Steam reads them
+        if (typeof existing === "object") {
+          mergeInto(existing, child);
+        } else {
+          object[key] = child;
+        }
+      } else if (next.type === "string") {
+        pos++;
+        skipConditional();
+        object[key] = next.value;
+      } else {
+        throw new VdfSyntaxError(`Expected a value for "${key}"`, next.line, next.column, filename);
+      }
+    }
+
+    if (depth > 0) {
+      const last = tokens[tokens.length - 1];
+      throw new VdfSyntaxError("Unexpected end of input, missing '}'", last.line, last.column, filename);
+    }
+    return object;
+  };
+
+  return { data: parseBlock(0), directives };
+}
+
+/**
+ * Parse KeyValues text into a nested object. Directives are ignored, use readVdfFile to resolve them.
+ */
+export function parseVdf(text: string, filename?: string): VdfObject {
+  return parseVdfDocument(text, filename).data;
+}
+
+/**
+ * Read and parse a KeyValues file, resolving #include and #base relative to it
+ */
+export async function readVdfFile(path: string, seen = new Set<string>()): Promise<VdfObject> {
+  const fullPath = resolve(path);
+  if (seen.has(fullPath)) {
+    throw new Error(`Circular #include/#base in ${fullPath}`);
+  }
+  seen.add(fullPath);
+
+  const content = await readFile(fullPath, "utf-8");
+  const { data, directives } = parseVdfDocument(content, fullPath);
+
+  for (const directive of directives) {
+    const included = await readVdfFile(resolve(dirname(fullPath), directive.path), seen);
+    // #include adds its keys alongside ours, #base only fills in what we don't define
+    mergeInto(data, included, directive.type === "base");
+  }
+
+  return data;
+}
+
+/**
+ * Look up a key case-insensitively. Steam isn't consistent about casing ("installdir" vs "InstallDir").
+ */
+function findKey(object: VdfObject, key: string): VdfValue | undefined {
+  if (key in object) return object[key];
+  const lower = key.toLowerCase();
+  const match = Object.keys(object).find((k) => k.toLowerCase() === lower);
+  return match === undefined ? undefined : object[match];
+}
+
+/**
+ * Walk a path of keys, case-insensitively
+ */
+export function vdfGet(object: VdfValue | undefined, ...path: string[]): VdfValue | undefined {
+  let current = object;
+  for (const key of path) {
+    if (typeof current !== "object") return undefined;
+    current = findKey(current, key);
+  }
+  return current;
+}
+
+export function vdfObject(object: VdfValue | undefined, ...path: string[]): VdfObject | undefined {
+  const value = vdfGet(object, ...path);
+  return typeof value === "object" ? value : undefined;
+}
+
+export function vdfString(object: VdfValue | undefined, ...path: string[]): string | undefined {
+  const value = vdfGet(object, ...path);
+  return typeof value === "string" ? value : undefined;
+}
+
+export function vdfNumber(object: VdfValue | undefined, ...path: string[]): number | undefined {
+  const value = vdfString(object, ...path);
+  if (value === undefined || value.trim() === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+const UNESCAPES: Record<string, string> = Object.fromEntries(Object.entries(ESCAPES).map(([k, v]) => [v, `\\${k}`]));
+
+const escapeVdf = (value: string) => value.replace(/[\\"\n\t\r]/g, (char) => UNESCAPES[char]);
+
+/**
+ * Serialize new entries, tab-indented like Steam writes them
+ */
+function stringifyVdf(object: VdfObject, depth: number): string {
+  const indent = "\t".repeat(depth);
+  return Object.entries(object)
+    .map(([key, value]) =>
+      typeof value === "string"
+        ? `${indent}"${escapeVdf(key)}"\t\t"${escapeVdf(value)}"\n`
+        : `${indent}"${escapeVdf(key)}"\n${indent}{\n${stringifyVdf(value, depth + 1)}${indent}}\n`,
+    )
+    .join("");
+}
+
+type VdfEntry = {
+  key: string;
+  // From the key to the end of the value, including any conditional
+  start: number;
+  end: number;
+  // Blocks only, with the offset of their closing brace
+  children?: VdfEntry[];
+  close?: number;
+};
+
+/**
+ * Locate every entry in the text, keeping duplicates and their offsets
+ */
+function scanEntries(tokens: Token[], filename?: string): VdfEntry[] {
+  let pos = 0;
+
+  const skipConditional = (end: number) => (tokens[pos]?.type === "condition" ? tokens[pos++].end : end);
+
+  const scanBlock = (depth: number): { entries: VdfEntry[]; close?: number } => {
+    const entries: VdfEntry[] = [];
+    while (pos < tokens.length) {
+      const token = tokens[pos];
+      if (token.type === "close") {
+        if (depth === 0) throw new VdfSyntaxError("Unexpected '}'", token.line, token.column, filename);
+        pos++;
+        return { entries, close: token.start };
+      }
+      if (token.type === "directive") {
+        pos += 2;
+        continue;
+      }
+      if (token.type !== "string") throw new VdfSyntaxError("Expected a key", token.line, token.column, filename);
+      pos++;
+      skipConditional(token.end);
+      const next = tokens[pos++];
+      if (next?.type === "open") {
+        const block = scanBlock(depth + 1);
+        const end = skipConditional((block.close ?? next.end) + 1);
+        entries.push({ key: token.value, start: token.start, end, children: block.entries, close: block.close });
+      } else if (next?.type === "string") {
+        entries.push({ key: token.value, start: token.start, end: skipConditional(next.end) });
+      } else {
+        throw new VdfSyntaxError(`Expected a value for "${token.value}"`, token.line, token.column, filename);
+      }
+    }
+    if (depth > 0) {
+      const last = tokens[tokens.length - 1];
+      throw new VdfSyntaxError("Unexpected end of input, missing '}'", last.line, last.column, filename);
+    }
+    return { entries };
+  };
+
+  return scanBlock(0).entries;
+}
+
+const sameKey = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Start of the line if only indentation comes before offset
+const lineStart = (text: string, offset: number) => {
+  const start = text.lastIndexOf("\n", offset - 1) + 1;
+  return /^[ \t]*$/.test(text.slice(start, offset)) ? start : offset;
+};
+
+/**
+ * Set or remove (value undefined) one entry in KeyValues text, leaving everything else
+ * byte for byte: key order, escapes, comments and conditionals. Keys match case-insensitively,
+ * missing blocks along the path are created.
+ */
+export function patchVdf(text: string, path: string[], value: VdfValue | undefined, filename?: string): string {
+  const edits: { start: number; end: number; text: string }[] = [];
+  let entries = scanEntries(tokenize(text, filename), filename);
+  let close = text.length;
+  let depth = 0;
+
+  for (const [index, key] of path.slice(0, -1).entries()) {
+    // Repeated blocks are merged when read, so the last one is as good as any
+    const block = entries.filter((entry) => entry.children && sameKey(entry.key, key)).pop();
+    if (!block) {
+      if (value === undefined) return text;
+      const missing = path.slice(index).reduceRight<VdfValue>((child, segment) => ({ [segment]: child }), value);
+      edits.push(insertion(text, close, stringifyVdf(missing as VdfObject, depth), depth));
+      return applyEdits(text, edits);
+    }
+    entries = block.children ?? [];
+    close = block.close ?? text.length;
+    depth++;
+  }
+
+  const key = path[path.length - 1];
+  const matches = entries.filter((entry) => sameKey(entry.key, key));
+  if (value !== undefined && matches.length) {
+    // Keep the key as written, only the value changes
+    const entry = stringifyVdf({ [matches[0].key]: value }, depth);
+    edits.push({ start: matches[0].start, end: matches[0].end, text: entry.slice(depth, -1) });
+  } else if (value !== undefined) {
+    edits.push(insertion(text, close, stringifyVdf({ [key]: value }, depth), depth));
+  }
+  // Duplicates would shadow the value we just wrote
+  for (const entry of value === undefined ? matches : matches.slice(1)) {
+    const start = lineStart(text, entry.start);
+    const end = start < entry.start && text[entry.end] === "\n" ? entry.end + 1 : entry.end;
+    edits.push({ start, end, text: "" });
+  }
+  return applyEdits(text, edits);
+}
+
+// New entries go on their own lines just before the closing brace, or at the end of the file
+function insertion(text: string, close: number, entry: string, depth: number) {
+  const start = lineStart(text, close);
+  if (start < close || close === 0) return { start, end: start, text: entry };
+  const prefix = close === text.length ? (text.endsWith("\n") ? "" : "\n") : "\n";
+  const suffix = close === text.length ? "" : "\t".repeat(Math.max(depth - 1, 0));
+  return { start: close, end: close, text: prefix + entry + suffix };
+}
+
+function applyEdits(text: string, edits: { start: number; end: number; text: string }[]) {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), text);
+}
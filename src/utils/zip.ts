@@ -0,0 +1,128 @@
+import { deflateRawSync, inflateRawSync } from "zlib";
+import { crc32 } from "./crc32";
+
+export interface ZipEntry {
+  // Forward-slash separated path inside the archive
+  name: string;
+  data: Buffer;
+  modified?: Date;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const STORED = 0;
+const DEFLATED = 8;
+// Without zip64, sizes and offsets are 32-bit and the entry count 16-bit
+const MAX_SIZE = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+/**
+ * Pack a date into the two 16-bit MS-DOS fields zip headers use
+ */
+function toDosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+/**
+ * Build a zip archive in memory. No zip64, so archives must stay under 4 GB and 65535 files.
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+  if (entries.length > MAX_ENTRIES) {
+    throw new Error(`Too many files for a zip archive (${entries.length}, the limit is ${MAX_ENTRIES})`);
+  }
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf-8");
+    const deflated = deflateRawSync(entry.data);
+    // Already-compressed files can come out bigger, store those as-is
+    const [method, data] = deflated.length < entry.data.length ? [DEFLATED, deflated] : [STORED, entry.data];
+    const { time, day } = toDosDateTime(entry.modified ?? new Date());
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(UTF8_FLAG, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(day, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(UTF8_FLAG, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(day, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, data);
+    centralParts.push(central, name);
+    offset += local.length + name.length + data.length;
+    if (offset > MAX_SIZE || entry.data.length > MAX_SIZE) throw new Error("Zip archive would be larger than 4 GB");
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  if (offset + centralSize > MAX_SIZE) throw new Error("Zip archive would be larger than 4 GB");
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, ...centralParts, end]);
+}
+
+/**
+ * Read every file out of a zip archive. Only stored and deflated entries are supported.
+ */
+export function readZip(buffer: Buffer): ZipEntry[] {
+  // The end record sits at the very end, unless the archive has a trailing comment
+  let endOffset = buffer.length - 22;
+  while (endOffset >= 0 && buffer.readUInt32LE(endOffset) !== END_OF_CENTRAL_DIRECTORY) endOffset--;
+  if (endOffset < 0) throw new Error("Not a zip file");
+
+  const count = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_HEADER) throw new Error("Corrupt zip central directory");
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf-8", offset + 46, offset + 46 + nameLength);
+
+    // The local header repeats the name but may carry a different extra field
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const raw = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (method !== STORED && method !== DEFLATED) throw new Error(`Unsupported compression in ${name}`);
+
+    if (!name.endsWith("/")) {
+      entries.push({ name, data: method === DEFLATED ? inflateRawSync(raw) : Buffer.from(raw) });
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}